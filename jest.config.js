@@ -0,0 +1,13 @@
+/**
+ * Jest Configuration
+ * Tests live in src/__tests__ and are transpiled only (npm run type-check covers types)
+ */
+
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': 'ts-jest',
+  },
+};
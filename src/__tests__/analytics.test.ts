@@ -0,0 +1,111 @@
+/**
+ * Analytics event bus: batching, flushing, queue limit and delivery counters
+ * (JSON-lines file sink and a webhook sink served by the fake server)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiPerformanceEvent } from '../types';
+import { FakeRedCircle, startFakeRedCircle } from './helpers/fake-redcircle';
+
+type EventBus = typeof import('../services/analytics/event-bus');
+
+let fake: FakeRedCircle;
+let bus: EventBus;
+let eventsDir: string;
+let eventsFile: string;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle();
+  eventsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'analytics-'));
+  eventsFile = path.join(eventsDir, 'events.jsonl');
+
+  process.env.ANALYTICS_SINKS = 'jsonl,webhook';
+  process.env.ANALYTICS_JSONL_FILE = eventsFile;
+  process.env.ANALYTICS_WEBHOOK_URL = fake.url;
+  process.env.ANALYTICS_BATCH_SIZE = '2';
+  process.env.ANALYTICS_MAX_QUEUE_SIZE = '3';
+  process.env.LOG_LEVEL = 'error';
+  bus = await import('../services/analytics/event-bus');
+});
+
+afterAll(async () => {
+  await fake.close();
+  fs.rmSync(eventsDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fake.requests.length = 0;
+  fake.setHandler(() => ({}));
+});
+
+/**
+ * Emit smart-select timing events
+ *
+ * @param count - Number of events
+ */
+function emitEvents(count: number): void {
+  for (let i = 0; i < count; i++) {
+    const event: ApiPerformanceEvent = {
+      type: 'api_call',
+      timestamp: new Date().toISOString(),
+      endpoint: '/api/stock/smart-select',
+      durationMs: i,
+      cacheHit: false,
+      productsChecked: 1,
+      substitutions: 0,
+    };
+    bus.emitAnalyticsEvent(event);
+  }
+}
+
+/**
+ * Delivery counters of one sink
+ *
+ * @param name - Sink name
+ * @returns Sink stats (queued is the current queue length)
+ */
+function sinkStats(name: string) {
+  return bus.getAnalyticsSummary().sinks.find((stats) => stats.name === name);
+}
+
+describe('analytics event bus', () => {
+  it('writes full batches in the background and the rest on flush', async () => {
+    emitEvents(3);
+    expect(sinkStats('webhook')?.queued).toBe(1);
+
+    await bus.flushAnalytics();
+
+    expect(fake.requests).toHaveLength(2);
+    expect(fs.readFileSync(eventsFile, 'utf8').trim().split('\n')).toHaveLength(3);
+    expect(sinkStats('jsonl')).toMatchObject({ queued: 0, delivered: 3, dropped: 0 });
+    expect(sinkStats('webhook')).toMatchObject({ queued: 0, delivered: 3, dropped: 0 });
+    expect(bus.getAnalyticsSummary().eventsEmitted.api_call).toBe(3);
+  });
+
+  it('drops and counts events once a sink queue holds ANALYTICS_MAX_QUEUE_SIZE', async () => {
+    fake.setHandler(() => ({ delayMs: 50 }));
+
+    // The first batch of 2 is being written; 3 of the next 4 fit in the queue
+    emitEvents(6);
+    expect(sinkStats('webhook')).toMatchObject({ queued: 3, dropped: 1 });
+
+    await bus.flushAnalytics();
+
+    expect(fake.requests).toHaveLength(3);
+    expect(sinkStats('webhook')).toMatchObject({ queued: 0, delivered: 8, dropped: 1 });
+  });
+
+  it('counts the events of a rejected batch as failed without retrying it', async () => {
+    fake.setHandler(() => ({ status: 500 }));
+
+    emitEvents(1);
+    await bus.flushAnalytics();
+
+    expect(fake.requests).toHaveLength(1);
+    expect(sinkStats('webhook')).toMatchObject({ queued: 0, delivered: 8, failed: 1 });
+    expect(sinkStats('webhook')?.lastError).toContain('500');
+    expect(sinkStats('jsonl')).toMatchObject({ failed: 0 });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * API key authentication, client rate limits and credit quotas, and the admin key,
+ * through the Express app against a fake RedCircle server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+const CLIENT_KEY = 'client-key-123456';
+const ADMIN_KEY = 'admin-key-123456';
+
+/**
+ * App instance listening on a random port
+ */
+interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+let server: TestServer | undefined;
+let fake: FakeRedCircle;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.STOCK_CACHE_HARD_TTL_SECONDS = '900';
+});
+
+afterAll(() => fake.close());
+
+/**
+ * Load a fresh copy of the app with the given key configuration and start it
+ *
+ * @param env - API_KEYS / ADMIN_API_KEY (unset when not given)
+ * @returns Base URL and close function
+ */
+async function startApp(env: { API_KEYS?: string; ADMIN_API_KEY?: string }): Promise<TestServer> {
+  delete process.env.API_KEYS;
+  delete process.env.ADMIN_API_KEY;
+  Object.assign(process.env, { LOG_LEVEL: 'error' }, env);
+  jest.resetModules();
+  const { default: app } = await import('../index');
+
+  const listener = http.createServer(app);
+  await new Promise<void>((resolve) => {
+    listener.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = listener.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => {
+      listener.closeAllConnections();
+      listener.close(() => resolve());
+    }),
+  };
+}
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+  fake.requests.length = 0;
+  fake.setHandler(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+  jest.restoreAllMocks();
+});
+
+/**
+ * Build an API_KEYS value with a single client allowed on every route
+ *
+ * @param limits - rateLimitPerMinute / dailyCreditQuota
+ * @returns Inline API key configuration
+ */
+function clientKeys(limits: { rateLimitPerMinute?: number; dailyCreditQuota?: number } = {}): string {
+  return JSON.stringify([{
+    key: CLIENT_KEY,
+    clientId: 'qa-jobs',
+    allowedRoutes: ['*'],
+    ...limits,
+  }]);
+}
+
+/**
+ * Smart-select one product (1 credit unless its stock is cached)
+ *
+ * @param tcin - Primary TCIN
+ * @returns Response
+ */
+function smartSelect(tcin: string): Promise<Response> {
+  return fetch(`${server?.url}/api/stock/smart-select`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': CLIENT_KEY },
+    body: JSON.stringify({
+      shortLink: 'https://incarts-us.web.app/quota',
+      longLink: 'https://www.target.com/long',
+      zipCode: '04457',
+      backups: [{ primaryId: tcin, backupIds: [] }],
+    }),
+  });
+}
+
+describe('client authentication', () => {
+  it('rejects missing and unknown API keys', async () => {
+    server = await startApp({ API_KEYS: clientKeys() });
+
+    const missing = await fetch(`${server.url}/api/products/search`);
+    const unknown = await fetch(`${server.url}/api/products/search`, { headers: { 'X-API-Key': 'nope' } });
+
+    expect(missing.status).toBe(401);
+    expect(unknown.status).toBe(401);
+  });
+
+  it('rate limits a client per minute', async () => {
+    server = await startApp({ API_KEYS: clientKeys({ rateLimitPerMinute: 2 }) });
+
+    const search = () => fetch(`${server?.url}/api/products/search`, { headers: { 'X-API-Key': CLIENT_KEY } });
+    const first = await search();
+    const second = await search();
+    const third = await search();
+
+    expect(first.status).not.toBe(429);
+    expect(second.status).not.toBe(429);
+    expect(third.status).toBe(429);
+    expect(await third.json()).toMatchObject({ error: { code: 'RATE_LIMIT_EXCEEDED' } });
+  });
+
+  it('rejects requests once the daily credit quota is used', async () => {
+    server = await startApp({ API_KEYS: clientKeys({ dailyCreditQuota: 1 }) });
+
+    const first = await smartSelect('50000001');
+    const second = await smartSelect('50000002');
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(429);
+    expect(await second.json()).toMatchObject({ error: { code: 'QUOTA_EXCEEDED' } });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('charges background refreshes of stale stock to the client that triggered them', async () => {
+    server = await startApp({ API_KEYS: clientKeys({ dailyCreditQuota: 2 }) });
+    expect((await smartSelect('50000003')).status).toBe(200);
+
+    // Past the soft TTL the stale entry is served, and the refresh finishes after the response
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 400_000);
+    fake.setHandler(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]), delayMs: 200 }));
+    expect((await smartSelect('50000003')).status).toBe(200);
+    await new Promise((resolve) => { setTimeout(resolve, 400); });
+
+    expect(fake.requests).toHaveLength(2);
+    expect((await smartSelect('50000004')).status).toBe(429);
+  });
+});
+
+describe('admin key', () => {
+  it('disables admin routes when ADMIN_API_KEY is not set', async () => {
+    server = await startApp({ API_KEYS: clientKeys() });
+
+    const response = await fetch(`${server.url}/api/admin/credits`, { headers: { 'X-API-Key': CLIENT_KEY } });
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: { code: 'ADMIN_DISABLED' } });
+  });
+
+  it('accepts only the admin key, not client keys with access to every route', async () => {
+    server = await startApp({ API_KEYS: clientKeys(), ADMIN_API_KEY: ADMIN_KEY });
+
+    const withClientKey = await fetch(`${server.url}/api/admin/credits`, {
+      headers: { 'X-API-Key': CLIENT_KEY, Authorization: `Bearer ${CLIENT_KEY}` },
+    });
+    const withWrongKey = await fetch(`${server.url}/api/admin/credits`, { headers: { 'X-Admin-Key': CLIENT_KEY } });
+    const withAdminKey = await fetch(`${server.url}/api/admin/credits`, { headers: { 'X-Admin-Key': ADMIN_KEY } });
+
+    expect(withClientKey.status).toBe(401);
+    expect(withWrongKey.status).toBe(401);
+    expect(withAdminKey.status).toBe(200);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * autoBackups discovery (candidate and credit caps) against a fake RedCircle server
+ */
+
+import { SmartSelectionRequest } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Selector = typeof import('../services/stock/product-selector');
+
+const ZIP_CODE = '04457';
+
+let fake: FakeRedCircle;
+let selector: Selector;
+
+/**
+ * Variants and search results by primary TCIN (every other TCIN is a candidate, in stock)
+ */
+const catalog: Record<string, { variants: string[]; search: string[] }> = {
+  25000001: { variants: ['25000011', '25000012', '25000013', '25000014'], search: [] },
+  25000002: { variants: ['25000021'], search: ['25000022', '25000023'] },
+  25000003: { variants: ['25000031', '25000032', '25000033'], search: [] },
+};
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle((params) => {
+    const tcin = params.get('tcin') || '';
+
+    if (params.get('type') === 'product') {
+      return {
+        body: {
+          request_info: { credits_used: 1 },
+          product: {
+            Title: `Product ${tcin}`,
+            Brand: 'Brand',
+            Fulfillment: { pickup: true },
+            Variants: catalog[tcin]?.variants.map((variant) => ({ tcin: variant })),
+          },
+        },
+      };
+    }
+    if (params.get('type') === 'search') {
+      // The search term ends with the primary's title, "Product <tcin>"
+      const primaryId = (params.get('search_term') || '').split(' ').pop() || '';
+      const results = catalog[primaryId]?.search || [];
+      return {
+        body: {
+          request_info: { credits_used: 1 },
+          search_results: results.map((id, index) => ({ position: index + 1, product: { tcin: id } })),
+        },
+      };
+    }
+    return { body: storeStockBody([{ storeId: '1001', inStock: !catalog[tcin] }]) };
+  });
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.AUTO_BACKUP_MAX_CANDIDATES = '3';
+  process.env.AUTO_BACKUP_MAX_CREDITS = '5';
+  process.env.LOG_LEVEL = 'error';
+  selector = await import('../services/stock/product-selector');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+/**
+ * Smart-select a primary with no listed backups and autoBackups on
+ *
+ * @param primaryId - Primary TCIN (out of stock)
+ * @param extra - Other request fields
+ * @returns Smart selection response
+ */
+function selectWithAutoBackups(primaryId: string, extra: Partial<SmartSelectionRequest> = {}) {
+  return selector.selectAvailableProducts({
+    shortLink: 'https://incarts-us.web.app/auto',
+    longLink: 'https://www.target.com/long',
+    zipCode: ZIP_CODE,
+    backups: [{ primaryId, backupIds: [] }],
+    autoBackups: true,
+    ...extra,
+  } as SmartSelectionRequest, ZIP_CODE);
+}
+
+/**
+ * RedCircle requests of one type for TCINs other than the primary
+ *
+ * @param type - Request type (store_stock or product)
+ * @param primaryId - Primary TCIN to leave out
+ * @returns Requested TCINs
+ */
+function candidateRequests(type: string, primaryId: string): string[] {
+  return fake.requests
+    .filter((params) => params.get('type') === type && params.get('tcin') !== primaryId)
+    .map((params) => params.get('tcin') || '')
+    .sort();
+}
+
+describe('autoBackups', () => {
+  it('checks at most AUTO_BACKUP_MAX_CANDIDATES variants and flags the backup used', async () => {
+    const response = await selectWithAutoBackups('25000001');
+
+    expect(candidateRequests('store_stock', '25000001')).toEqual(['25000011', '25000012', '25000013']);
+    expect(fake.requests.some((params) => params.get('type') === 'search')).toBe(false);
+    expect(response.backupProducts).toEqual([
+      expect.objectContaining({ originalId: '25000001', replacementId: '25000011', autoSource: 'variant' }),
+    ]);
+  });
+
+  it('searches brand and title when variants fall short', async () => {
+    const response = await selectWithAutoBackups('25000002', { explain: true });
+
+    expect(candidateRequests('store_stock', '25000002')).toEqual(['25000021', '25000022', '25000023']);
+    expect(response.explain?.groups[0].candidates.map((candidate) => [candidate.productId, candidate.role]))
+      .toEqual([['25000002', 'primary'], ['25000021', 'auto'], ['25000022', 'auto'], ['25000023', 'auto']]);
+  });
+
+  it('counts product details of each candidate against the credit budget outside in-store', async () => {
+    const response = await selectWithAutoBackups('25000003', { fulfillment: 'pickup' });
+
+    // 5 credits: primary details (cached by the main check, still counted), then 2 per candidate
+    expect(candidateRequests('store_stock', '25000003')).toEqual(['25000031', '25000032']);
+    expect(candidateRequests('product', '25000003')).toEqual(['25000031', '25000032']);
+    expect(response.backupProducts[0]).toMatchObject({ replacementId: '25000031', autoSource: 'variant' });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Batch availability checks against a fake RedCircle server
+ */
+
+import { StockCheckParams } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Availability = typeof import('../services/stock/availability');
+type Api = typeof import('../services/target/api');
+
+let fake: FakeRedCircle;
+let availability: Availability;
+let api: Api;
+
+/**
+ * Whether store 1001 has the product when looked up from the other ZIP (90210)
+ */
+let storeInStockFromOtherZip = true;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle();
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.LOG_LEVEL = 'error';
+  availability = await import('../services/stock/availability');
+  api = await import('../services/target/api');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+  storeInStockFromOtherZip = true;
+  // Store 1001 is 40 miles from 90210 but 30 miles from 04457, where store 3001 is nearest
+  fake.setHandler((params) => ({
+    body: params.get('store_stock_zipcode') === '90210'
+      ? storeStockBody([{ storeId: '1001', inStock: storeInStockFromOtherZip, distance: 40 }])
+      : storeStockBody([
+        { storeId: '3001', inStock: true, distance: 2 },
+        { storeId: '1001', inStock: true, distance: 30 },
+      ]),
+  }));
+});
+
+/**
+ * Index store 1001's stock for a TCIN by looking it up from 90210, then check it from 04457
+ */
+async function checkFromIndexedStore(tcin: string, extra: Partial<StockCheckParams> = {}) {
+  await api.lookupStoreStock(tcin, '90210');
+  fake.requests.length = 0;
+
+  const { availabilityMap } = await availability.checkBatchAvailability({
+    productIds: [tcin],
+    zipCode: '04457',
+    storeId: '1001',
+    ...extra,
+  });
+  return availabilityMap.get(tcin);
+}
+
+describe('store-level index', () => {
+  it('answers when only the requested store matters', async () => {
+    const result = await checkFromIndexedStore('30000001');
+
+    expect(fake.requests).toHaveLength(0);
+    expect(result).toMatchObject({ storeId: '1001', inStock: true, fromCache: true });
+  });
+
+  it.each<[string, string, Partial<StockCheckParams>]>([
+    ['a store policy is in effect', '30000002', { storePolicy: { maxDistanceMiles: 35 } }],
+    ['stores are compared', '30000003', { compareStores: true }],
+  ])('is bypassed when %s', async (_, tcin, extra) => {
+    const result = await checkFromIndexedStore(tcin, extra);
+
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0].get('store_stock_zipcode')).toBe('04457');
+    // Distance is from the requested ZIP, so the 35-mile radius keeps the store
+    expect(result).toMatchObject({ storeId: '1001', distance: 30, fromCache: false });
+    expect(result?.stores).toHaveLength(2);
+  });
+
+  it('falls back to the ZIP lookup when the indexed store is out of stock', async () => {
+    storeInStockFromOtherZip = false;
+
+    const result = await checkFromIndexedStore('30000004');
+
+    expect(fake.requests).toHaveLength(1);
+    expect(result).toMatchObject({ storeId: '1001', inStock: true, distance: 30 });
+  });
+});
+
+describe('store policy', () => {
+  beforeEach(() => {
+    fake.setHandler(() => ({
+      // Nearest first
+      body: storeStockBody([
+        { storeId: '3001', inStock: true, stockLevel: 1 },
+        { storeId: '1001', inStock: true, stockLevel: 10 },
+        { storeId: '2001', inStock: false },
+        { storeId: '4001', inStock: true, stockLevel: 6 },
+      ]),
+    }));
+  });
+
+  /**
+   * Check one TCIN from 04457
+   *
+   * @param tcin - Target TCIN
+   * @param extra - storePolicy, storeId and other check parameters
+   * @returns The product's availability
+   */
+  async function checkStores(tcin: string, extra: Partial<StockCheckParams> = {}) {
+    const { availabilityMap } = await availability.checkBatchAvailability({
+      productIds: [tcin],
+      zipCode: '04457',
+      ...extra,
+    });
+    return availabilityMap.get(tcin);
+  }
+
+  /**
+   * Rejected store IDs and reasons
+   *
+   * @param result - Availability from checkStores
+   * @returns [storeId, reason] pairs
+   */
+  function rejections(result: Awaited<ReturnType<typeof checkStores>>) {
+    return result?.rejectedStores?.map(({ storeId, reason }) => [storeId, reason]);
+  }
+
+  it('skips denied stores', async () => {
+    const result = await checkStores('31000001', { storePolicy: { denyStoreIds: ['3001'] } });
+
+    expect(result).toMatchObject({ storeId: '1001', storeSelectionReason: 'NEAREST_IN_STOCK' });
+    expect(rejections(result)).toEqual([['3001', 'DENIED']]);
+  });
+
+  it('only picks allowed stores', async () => {
+    const result = await checkStores('31000002', { storePolicy: { allowStoreIds: ['2001', '4001'] } });
+
+    expect(result).toMatchObject({ storeId: '4001', inStock: true });
+    expect(rejections(result)).toEqual([['3001', 'NOT_ALLOWED'], ['1001', 'NOT_ALLOWED']]);
+  });
+
+  it('treats an empty allow list as no allow list', async () => {
+    const result = await checkStores('31000003', { storePolicy: { allowStoreIds: [] } });
+
+    expect(result).toMatchObject({ storeId: '3001', inStock: true });
+    expect(result?.rejectedStores).toBeUndefined();
+  });
+
+  it('rejects in-stock stores below minStockLevel and keeps out-of-stock ones', async () => {
+    const result = await checkStores('31000004', { storePolicy: { minStockLevel: 3 } });
+
+    expect(result).toMatchObject({ storeId: '1001', availableQuantity: 10 });
+    expect(rejections(result)).toEqual([['3001', 'BELOW_MIN_STOCK']]);
+    expect(result?.stores?.map((store) => store.storeId)).toEqual(['1001', '2001', '4001']);
+  });
+
+  it('walks the preferred-store chain after storeId for the first store in stock', async () => {
+    const result = await checkStores('31000005', {
+      storeId: '2001',
+      storePolicy: { preferredStoreIds: ['9999', '4001', '1001'] },
+    });
+
+    expect(result).toMatchObject({ storeId: '4001', storeSelectionReason: 'PREFERRED_STORE_CHAIN' });
+  });
+
+  it('keeps storeId when it has the product, ahead of the chain', async () => {
+    const result = await checkStores('31000006', {
+      storeId: '1001',
+      storePolicy: { preferredStoreIds: ['4001'] },
+    });
+
+    expect(result).toMatchObject({ storeId: '1001', storeSelectionReason: 'PREFERRED_STORE' });
+  });
+
+  it('falls back to storeId, even out of stock, when no chain store has the product', async () => {
+    const result = await checkStores('31000007', {
+      storeId: '2001',
+      storePolicy: { preferredStoreIds: ['9999'], denyStoreIds: ['4001'] },
+    });
+
+    expect(result).toMatchObject({ storeId: '2001', inStock: false, storeSelectionReason: 'PREFERRED_STORE' });
+  });
+
+  it('falls back to the nearest in-stock store without storeId', async () => {
+    const result = await checkStores('31000008', { storePolicy: { preferredStoreIds: ['2001'] } });
+
+    expect(result).toMatchObject({ storeId: '3001', storeSelectionReason: 'NEAREST_IN_STOCK' });
+  });
+});
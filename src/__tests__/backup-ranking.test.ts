@@ -0,0 +1,115 @@
+/**
+ * Price/rating backup ranking and the price ceiling against a fake RedCircle server
+ */
+
+import { SmartSelectionRequest } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Ranking = typeof import('../services/stock/backup-ranking');
+type Selector = typeof import('../services/stock/product-selector');
+
+const ZIP_CODE = '04457';
+
+let fake: FakeRedCircle;
+let ranking: Ranking;
+let selector: Selector;
+
+/**
+ * Price and rating by TCIN (primary 26000001 costs $10)
+ */
+const products: Record<string, { price?: number; rating?: number }> = {
+  26000001: { price: 10, rating: 4 },
+  26000002: { price: 25, rating: 4.9 },
+  26000003: { price: 11, rating: 3.5 },
+  26000004: { rating: 4.5 },
+  26000005: { price: 9, rating: 4.2 },
+  26000011: { price: 20 },
+  26000012: { price: 21 },
+};
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle((params) => {
+    if (params.get('type') !== 'product') {
+      return { body: storeStockBody([{ storeId: '1001', inStock: true }]) };
+    }
+
+    const { price, rating } = products[params.get('tcin') || ''] || {};
+    return {
+      body: {
+        request_info: { credits_used: 1 },
+        Product: { Price: price !== undefined ? { value: price, currency: 'USD' } : undefined, Rating: rating },
+        product: { Fulfillment: { pickup: true } },
+      },
+    };
+  });
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.LOG_LEVEL = 'error';
+  ranking = await import('../services/stock/backup-ranking');
+  selector = await import('../services/stock/product-selector');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+/**
+ * Build a request for the primary 26000001 and its four backups
+ *
+ * @param extra - backupRanking / maxPriceIncreasePercent and other fields (may replace backups)
+ * @returns Smart selection request
+ */
+function buildRequest(extra: Partial<SmartSelectionRequest> = {}): SmartSelectionRequest {
+  return {
+    shortLink: 'https://incarts-us.web.app/rank',
+    longLink: 'https://www.target.com/long',
+    zipCode: ZIP_CODE,
+    backups: [{ primaryId: '26000001', backupIds: ['26000002', '26000003', '26000004', '26000005'] }],
+    ...extra,
+  } as SmartSelectionRequest;
+}
+
+describe('rankBackups', () => {
+  it('keeps array order without looking products up', async () => {
+    const { backups, pricing } = await ranking.rankBackups(buildRequest({ backupRanking: 'order' }));
+
+    expect(backups[0].backupIds).toEqual(['26000002', '26000003', '26000004', '26000005']);
+    expect(pricing.size).toBe(0);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it('orders by closest price to the primary, unknown prices last', async () => {
+    const { backups } = await ranking.rankBackups(buildRequest({ backupRanking: 'price' }));
+
+    expect(backups[0].backupIds).toEqual(['26000003', '26000005', '26000002', '26000004']);
+  });
+
+  it('orders by highest rating', async () => {
+    const { backups } = await ranking.rankBackups(buildRequest({ backupRanking: 'rating' }));
+
+    expect(backups[0].backupIds).toEqual(['26000002', '26000004', '26000005', '26000003']);
+  });
+
+  it('drops backups priced over maxPriceIncreasePercent and keeps unknown prices', async () => {
+    const { backups, priceExcluded } = await ranking.rankBackups(buildRequest({ maxPriceIncreasePercent: 20 }));
+
+    expect(backups[0].backupIds).toEqual(['26000003', '26000004', '26000005']);
+    expect(priceExcluded.get('26000001')).toEqual(['26000002']);
+  });
+});
+
+describe('product details shared by ranking and fulfillment checks', () => {
+  it('fetches each product once', async () => {
+    const response = await selector.selectAvailableProducts(buildRequest({
+      backups: [{ primaryId: '26000011', backupIds: ['26000012'] }],
+      backupRanking: 'price',
+      fulfillment: 'pickup',
+    }), ZIP_CODE);
+
+    const productRequests = fake.requests.filter((params) => params.get('type') === 'product');
+    expect(productRequests.map((params) => params.get('tcin')).sort()).toEqual(['26000011', '26000012']);
+    expect(response.prices).toEqual([expect.objectContaining({ productId: '26000011', price: 20 })]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Cache warming credit budget against a fake RedCircle server
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Warmer = typeof import('../services/stock/cache-warmer');
+type Circuit = typeof import('../services/target/circuit-breaker');
+type Cache = typeof import('../utils/cache');
+
+let fake: FakeRedCircle;
+let warmer: Warmer;
+let circuit: Circuit;
+let configDir: string;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+
+  configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'warm-config-'));
+  const configFile = path.join(configDir, 'warm-config.json');
+  fs.writeFileSync(configFile, JSON.stringify({
+    zipCodes: ['04457'],
+    shortLinks: [{
+      shortLink: 'https://incarts-us.web.app/warm',
+      backups: [{ primaryId: '40000001', backupIds: ['40000002', '40000003', '40000004'] }],
+    }],
+  }));
+
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.CACHE_WARM_CONFIG_FILE = configFile;
+  process.env.CACHE_WARM_CREDIT_BUDGET_PER_HOUR = '3';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '1';
+  process.env.LOG_LEVEL = 'error';
+  warmer = await import('../services/stock/cache-warmer');
+  circuit = await import('../services/target/circuit-breaker');
+});
+
+afterAll(async () => {
+  await fake.close();
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+describe('cache warming credit budget', () => {
+  it('charges nothing for calls refused before they are sent', async () => {
+    circuit.recordCircuitFailure();
+
+    const report = await warmer.runCacheWarming('manual');
+
+    expect(fake.requests).toHaveLength(0);
+    expect(report).toMatchObject({
+      failed: 3, skipped: 1, creditsUsed: 0, creditBudgetRemaining: 3,
+    });
+    circuit.recordCircuitSuccess();
+  });
+
+  it('stops at the hourly budget and skips fresh entries on the next run', async () => {
+    const first = await warmer.runCacheWarming('manual');
+
+    expect(fake.requests).toHaveLength(3);
+    expect(first).toMatchObject({
+      warmed: 3, skipped: 1, creditsUsed: 3, creditBudgetRemaining: 0,
+    });
+    expect(first.items.find((item) => item.status === 'skipped_budget')?.tcin).toBe('40000004');
+
+    const second = await warmer.runCacheWarming('manual');
+
+    expect(fake.requests).toHaveLength(3);
+    expect(second).toMatchObject({ fresh: 3, skipped: 1, creditsUsed: 0 });
+  });
+});
+
+describe('cache warming at startup', () => {
+  let startupWarmer: Warmer;
+  let cache: Cache;
+
+  beforeAll(async () => {
+    // Fresh modules: empty cache and hourly budget
+    jest.resetModules();
+    startupWarmer = await import('../services/stock/cache-warmer');
+    cache = await import('../utils/cache');
+  });
+
+  afterAll(() => startupWarmer.stopCacheWarming());
+
+  it('runs a first pass right away, within the budget, writing each entry once', async () => {
+    const setSpy = jest.spyOn(cache.stockCache, 'set');
+
+    startupWarmer.startCacheWarming();
+    // Joins the startup pass still in progress
+    const report = await startupWarmer.runCacheWarming('manual');
+
+    expect(report).toMatchObject({
+      trigger: 'startup', warmed: 3, skipped: 1, creditsUsed: 3,
+    });
+    expect(fake.requests).toHaveLength(3);
+    const stockKeys = ['40000001', '40000002', '40000003']
+      .map((tcin) => cache.generateProductStockCacheKey('04457', tcin));
+    expect(setSpy.mock.calls.filter(([key]) => stockKeys.includes(key))).toHaveLength(3);
+  });
+});
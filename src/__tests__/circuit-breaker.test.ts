@@ -0,0 +1,122 @@
+/**
+ * RedCircle circuit breaker, and degraded smart-select responses, against a fake RedCircle server
+ */
+
+import { SmartSelectionRequest } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Circuit = typeof import('../services/target/circuit-breaker');
+type Selector = typeof import('../services/stock/product-selector');
+
+let fake: FakeRedCircle;
+let circuit: Circuit;
+let selector: Selector;
+
+/**
+ * Milliseconds added to Date.now (only moves forward: the request scheduler can't handle time going back)
+ */
+let clockOffset = 0;
+const realDateNow = Date.now;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '3';
+  process.env.CIRCUIT_OPEN_SECONDS = '30';
+  process.env.LOG_LEVEL = 'error';
+  jest.spyOn(Date, 'now').mockImplementation(() => realDateNow() + clockOffset);
+  circuit = await import('../services/target/circuit-breaker');
+  selector = await import('../services/stock/product-selector');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+  circuit.recordCircuitSuccess();
+});
+
+/**
+ * Record enough consecutive failures to open the circuit
+ */
+function openCircuit(): void {
+  circuit.recordCircuitFailure();
+  circuit.recordCircuitFailure();
+  circuit.recordCircuitFailure();
+}
+
+describe('circuit breaker', () => {
+  it('opens at the failure threshold and refuses calls until the cool-down ends', () => {
+    circuit.recordCircuitFailure();
+    circuit.recordCircuitFailure();
+    expect(circuit.acquireCircuitPermit()).toBe(true);
+
+    circuit.recordCircuitFailure();
+
+    expect(circuit.getCircuitStatus()).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+    expect(circuit.isCircuitOpen()).toBe(true);
+    expect(circuit.acquireCircuitPermit()).toBe(false);
+  });
+
+  it('lets a single probe through when half-open, and closes when it succeeds', () => {
+    openCircuit();
+    clockOffset += 31_000;
+
+    expect(circuit.isCircuitOpen()).toBe(false);
+    expect(circuit.acquireCircuitPermit()).toBe(true);
+    expect(circuit.getCircuitStatus().state).toBe('half_open');
+    expect(circuit.acquireCircuitPermit()).toBe(false);
+
+    circuit.recordCircuitSuccess();
+
+    expect(circuit.getCircuitStatus().state).toBe('closed');
+    expect(circuit.acquireCircuitPermit()).toBe(true);
+  });
+
+  it('re-opens when the half-open probe fails', () => {
+    openCircuit();
+    clockOffset += 31_000;
+    expect(circuit.acquireCircuitPermit()).toBe(true);
+
+    circuit.recordCircuitFailure();
+
+    expect(circuit.getCircuitStatus().state).toBe('open');
+    expect(circuit.acquireCircuitPermit()).toBe(false);
+  });
+});
+
+describe('degraded smart-select responses', () => {
+  it('are flagged when lookups are refused while another holds the half-open probe', async () => {
+    openCircuit();
+    clockOffset += 31_000;
+    // The probe answers after the other lookups have been refused, and closes the circuit
+    fake.setHandler(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]), delayMs: 50 }));
+
+    const response = await selector.selectAvailableProducts({
+      shortLink: 'https://incarts-us.web.app/probe',
+      longLink: 'https://www.target.com/long',
+      zipCode: '04457',
+      backups: [
+        { primaryId: '90000001', backupIds: [] },
+        { primaryId: '90000002', backupIds: [] },
+      ],
+    } as SmartSelectionRequest, '04457');
+
+    expect(fake.requests).toHaveLength(1);
+    expect(circuit.getCircuitStatus().state).toBe('closed');
+    expect(response.degraded).toBe(true);
+  });
+
+  it('are not flagged when the circuit stays closed', async () => {
+    const response = await selector.selectAvailableProducts({
+      shortLink: 'https://incarts-us.web.app/closed',
+      longLink: 'https://www.target.com/long',
+      zipCode: '04457',
+      backups: [{ primaryId: '90000003', backupIds: [] }],
+    } as SmartSelectionRequest, '04457');
+
+    expect(response.degraded).toBeUndefined();
+    expect(response.allProductsUnavailable).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * In-flight request coalescing: concurrent identical lookups share one RedCircle call
+ */
+
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Api = typeof import('../services/target/api');
+
+const ZIP_CODE = '04457';
+
+let fake: FakeRedCircle;
+let api: Api;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle();
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '0';
+  process.env.LOG_LEVEL = 'error';
+  api = await import('../services/target/api');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+  // Slow enough that every caller joins while the first request is in flight
+  fake.setHandler((params) => (params.get('type') === 'product'
+    ? { body: { request_info: { credits_used: 1 }, product: { Title: 'Product' } }, delayMs: 50 }
+    : { body: storeStockBody([{ storeId: '1001', inStock: true }]), delayMs: 50 }));
+});
+
+/**
+ * Started and coalesced counters of one request type
+ *
+ * @param type - Coalesced request type
+ * @returns Copy of the counters
+ */
+function countersFor(type: 'store_stock' | 'product') {
+  return { ...api.getCoalescingStats().byType[type] };
+}
+
+describe('coalesceRequest', () => {
+  it('shares one upstream call between concurrent identical stock lookups', async () => {
+    const before = countersFor('store_stock');
+
+    const results = await Promise.all([0, 1, 2].map(() => api.lookupStoreStock('50000001', ZIP_CODE)));
+
+    expect(fake.requests).toHaveLength(1);
+    expect(results[1].stock).toBe(results[0].stock);
+    expect(countersFor('store_stock')).toEqual({
+      started: before.started + 1,
+      coalesced: before.coalesced + 2,
+    });
+    expect(api.getCoalescingStats().pending).toBe(0);
+  });
+
+  it('does not coalesce lookups for different products or ZIP codes', async () => {
+    const before = countersFor('store_stock');
+
+    await Promise.all([
+      api.lookupStoreStock('50000002', ZIP_CODE),
+      api.lookupStoreStock('50000003', ZIP_CODE),
+      api.lookupStoreStock('50000002', '90210'),
+    ]);
+
+    expect(fake.requests).toHaveLength(3);
+    expect(countersFor('store_stock')).toEqual({ started: before.started + 3, coalesced: before.coalesced });
+  });
+
+  it('shares one call between the basic and the full product lookup', async () => {
+    const before = countersFor('product');
+
+    await Promise.all([api.getProductByTcin('50000004'), api.getFullProductByTcin('50000004')]);
+
+    expect(fake.requests).toHaveLength(1);
+    expect(countersFor('product')).toEqual({ started: before.started + 1, coalesced: before.coalesced + 1 });
+  });
+
+  it('shares a failure, then lets the next caller try again', async () => {
+    fake.setHandler(() => ({ status: 400, delayMs: 50 }));
+
+    const errors = await Promise.all([0, 1].map(() => api.lookupStoreStock('50000005', ZIP_CODE).catch((e) => e)));
+
+    expect(fake.requests).toHaveLength(1);
+    expect(errors[1]).toBe(errors[0]);
+
+    fake.setHandler(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+    const retried = await api.lookupStoreStock('50000005', ZIP_CODE);
+
+    expect(fake.requests).toHaveLength(2);
+    expect(retried.fromCache).toBe(false);
+  });
+});
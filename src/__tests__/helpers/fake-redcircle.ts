@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Fake RedCircle server for tests
+ * @description Local HTTP server standing in for the RedCircle API. Each test sets a
+ * handler that decides the response per request; every request's query is recorded
+ * @module __tests__/helpers/fake-redcircle
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TargetStoreStockResponse } from '../../types';
+
+/**
+ * Response the fake server sends
+ */
+export interface FakeResponse {
+  status?: number; // Default 200
+  headers?: Record<string, string>;
+  body?: unknown;
+  delayMs?: number; // Wait before answering (timeouts)
+}
+
+export type FakeHandler = (params: URLSearchParams) => FakeResponse;
+
+export interface FakeRedCircle {
+  url: string;
+  requests: URLSearchParams[];
+  setHandler(handler: FakeHandler): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake RedCircle server on a random port
+ *
+ * @param handler - Initial handler (defaults to an empty 200 response)
+ * @returns Server URL, recorded requests and controls
+ */
+export async function startFakeRedCircle(handler: FakeHandler = () => ({})): Promise<FakeRedCircle> {
+  let currentHandler = handler;
+  const requests: URLSearchParams[] = [];
+
+  const server = http.createServer((req, res) => {
+    const params = new URL(req.url || '/', 'http://localhost').searchParams;
+    requests.push(params);
+
+    const {
+      status = 200,
+      headers = {},
+      body = {},
+      delayMs = 0,
+    } = currentHandler(params);
+    const timer = setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    }, delayMs);
+    // Client gave up (timeout) - don't answer later
+    res.on('close', () => clearTimeout(timer));
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/request`,
+    requests,
+    setHandler: (next) => {
+      currentHandler = next;
+    },
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/**
+ * Build a store_stock response
+ *
+ * @param stores - Store rows (store_id, in_stock, stock_level, distance)
+ * @returns RedCircle store_stock body
+ */
+export function storeStockBody(
+  stores: Array<{ storeId: string; inStock: boolean; stockLevel?: number; distance?: number }>,
+): TargetStoreStockResponse {
+  return {
+    request_info: { success: true, credits_used: 1 },
+    store_stock_results: stores.map((store, index) => ({
+      position: index + 1,
+      store_id: store.storeId,
+      store_name: `Store ${store.storeId}`,
+      in_stock: store.inStock,
+      stock_level: store.stockLevel ?? (store.inStock ? 10 : 0),
+      distance: store.distance ?? 1,
+    })),
+  };
+}
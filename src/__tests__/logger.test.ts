@@ -0,0 +1,89 @@
+/**
+ * Credential redaction in logged fields, messages and errors
+ */
+
+import { ApiError } from '../types';
+
+type Logger = typeof import('../utils/logger');
+
+const API_KEY = 'secret-redcircle-key-123';
+
+let logger: Logger;
+
+beforeAll(async () => {
+  process.env.TARGET_API_KEY = API_KEY;
+  process.env.LOG_LEVEL = 'info';
+  process.env.LOG_FORMAT = 'json';
+  logger = await import('../utils/logger');
+});
+
+describe('redact', () => {
+  it('replaces the values of sensitive keys at any depth', () => {
+    expect(logger.redact({
+      tcin: '12345678',
+      api_key: 'abc',
+      headers: { Authorization: 'Bearer xyz', 'X-Admin-Key': 'admin', Cookie: 'session=1' },
+      clients: [{
+        name: 'web', token: 't', password: 'p', clientSecret: 's',
+      }],
+    })).toEqual({
+      tcin: '12345678',
+      api_key: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]', 'X-Admin-Key': '[REDACTED]', Cookie: '[REDACTED]' },
+      clients: [{
+        name: 'web', token: '[REDACTED]', password: '[REDACTED]', clientSecret: '[REDACTED]',
+      }],
+    });
+  });
+
+  it('redacts api_key= query parameters in strings', () => {
+    expect(logger.redact('GET https://api.redcircleapi.com/request?type=product&api_key=abc123&tcin=1'))
+      .toBe('GET https://api.redcircleapi.com/request?type=product&api_key=[REDACTED]&tcin=1');
+    expect(logger.redact({ url: '/request?API_KEY=abc123' })).toEqual({ url: '/request?API_KEY=[REDACTED]' });
+  });
+
+  it('redacts the TARGET_API_KEY value wherever it appears', () => {
+    expect(logger.redact({ note: `key ${API_KEY} leaked`, list: [`x${API_KEY}`] }))
+      .toEqual({ note: 'key [REDACTED] leaked', list: ['x[REDACTED]'] });
+  });
+
+  it('redacts error messages and details', () => {
+    const error = new ApiError(`Request failed: api_key=${API_KEY}`, 'NETWORK_ERROR', {
+      url: `https://example.com/?api_key=${API_KEY}`,
+      apiKey: API_KEY,
+    });
+
+    expect(logger.redact(error)).toMatchObject({
+      name: 'ApiError',
+      message: 'Request failed: api_key=[REDACTED]',
+      code: 'NETWORK_ERROR',
+      details: { url: 'https://example.com/?api_key=[REDACTED]', apiKey: '[REDACTED]' },
+    });
+  });
+
+  it('truncates cycles instead of recursing forever', () => {
+    const value: Record<string, unknown> = { name: 'loop' };
+    value.self = value;
+
+    expect(logger.redact(value)).toEqual({ name: 'loop', self: '[Truncated]' });
+  });
+});
+
+describe('log entries', () => {
+  it('are written with redacted messages and fields', () => {
+    const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    logger.createLogger('Test').warn(`Calling ?api_key=${API_KEY}`, { token: 'abc', key: API_KEY });
+
+    const entry = JSON.parse(String(write.mock.calls[0][0]));
+    write.mockRestore();
+    expect(entry).toMatchObject({
+      severity: 'WARN',
+      component: 'Test',
+      message: 'Calling ?api_key=[REDACTED]',
+      token: '[REDACTED]',
+      key: '[REDACTED]',
+    });
+    expect(JSON.stringify(entry)).not.toContain(API_KEY);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * GET /metrics through the Express app against a fake RedCircle server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Circuit = typeof import('../services/target/circuit-breaker');
+
+let fake: FakeRedCircle;
+let circuit: Circuit;
+let listener: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle((params) => (params.get('type') === 'product'
+    ? { status: 404 }
+    : { body: storeStockBody([{ storeId: '1001', inStock: params.get('tcin') === '60000002' }]) }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '1';
+  process.env.CACHE_BACKEND = 'memory';
+  process.env.LOG_LEVEL = 'error';
+  const { default: app } = await import('../index');
+  circuit = await import('../services/target/circuit-breaker');
+
+  listener = http.createServer(app);
+  await new Promise<void>((resolve) => {
+    listener.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  listener.closeAllConnections();
+  await new Promise<void>((resolve) => {
+    listener.close(() => resolve());
+  });
+  await fake.close();
+});
+
+/**
+ * Scrape /metrics
+ *
+ * @returns Response and metrics text
+ */
+async function scrape(): Promise<{ response: Response; text: string }> {
+  const response = await fetch(`${baseUrl}/metrics`);
+  return { response, text: await response.text() };
+}
+
+/**
+ * Value of one series in the Prometheus text format
+ *
+ * @param text - Metrics text
+ * @param series - Metric name with labels, e.g. cache_keys{cache="stock",backend="memory"}
+ * @returns Sample value, or undefined if the series is missing
+ */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find((entry) => entry.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+describe('GET /metrics', () => {
+  it('exposes RedCircle, cache, selection and process series', async () => {
+    const selection = await fetch(`${baseUrl}/api/stock/smart-select`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        shortLink: 'https://incarts-us.web.app/metrics',
+        longLink: 'https://www.target.com/long',
+        zipCode: '04457',
+        backups: [{ primaryId: '60000001', backupIds: ['60000002'] }],
+      }),
+    });
+    expect(selection.status).toBe(200);
+    // RedCircle answers 404 for product lookups
+    await fetch(`${baseUrl}/api/products/60000003`);
+
+    const { response, text } = await scrape();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(sample(text, 'redcircle_request_duration_seconds_count{type="store_stock"}')).toBe(2);
+    expect(sample(text, 'redcircle_request_errors_total{type="product",code="PRODUCT_NOT_FOUND"}')).toBe(1);
+    expect(sample(text, 'smart_select_duration_seconds_count{endpoint="/api/stock/smart-select"}')).toBe(1);
+    expect(sample(text, 'smart_select_backups_used_total{reason="OUT_OF_STOCK"}')).toBe(1);
+    expect(sample(text, 'smart_select_all_products_unavailable_total')).toBe(0);
+    expect(sample(text, 'redcircle_circuit_state')).toBe(0);
+    ['stock', 'product'].forEach((cache) => {
+      const labels = `{cache="${cache}",backend="memory"}`;
+      ['cache_keys', 'cache_hits', 'cache_misses', 'cache_hit_ratio'].forEach((name) => {
+        expect(sample(text, `${name}${labels}`)).toEqual(expect.any(Number));
+      });
+    });
+    expect(sample(text, 'cache_keys{cache="stock",backend="memory"}')).toBeGreaterThanOrEqual(2);
+    expect(text).toMatch(/^process_cpu_user_seconds_total /m);
+    expect(text).toMatch(/^nodejs_eventloop_lag_seconds /m);
+  });
+
+  it('reports the circuit state at scrape time', async () => {
+    circuit.recordCircuitFailure();
+
+    const { text } = await scrape();
+    circuit.recordCircuitSuccess();
+
+    expect(sample(text, 'redcircle_circuit_state')).toBe(2);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Smart selection against a fake RedCircle server
+ */
+
+import { SmartSelectionRequest } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Selector = typeof import('../services/stock/product-selector');
+type Api = typeof import('../services/target/api');
+type Ledger = typeof import('../services/target/credit-ledger');
+type Context = typeof import('../utils/request-context');
+type Circuit = typeof import('../services/target/circuit-breaker');
+
+const ZIP_CODE = '04457';
+
+let fake: FakeRedCircle;
+let selector: Selector;
+let api: Api;
+let ledger: Ledger;
+let requestContext: Context;
+let circuit: Circuit;
+
+/**
+ * TCINs the fake server reports in stock (everything else is out of stock)
+ */
+let inStock = new Set<string>();
+
+/**
+ * Milliseconds added to Date.now (only moves forward: the request scheduler can't handle time going back)
+ */
+let clockOffset = 0;
+const realDateNow = Date.now;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle();
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.STOCK_CACHE_HARD_TTL_SECONDS = '900';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '1';
+  process.env.LOG_LEVEL = 'error';
+  jest.spyOn(Date, 'now').mockImplementation(() => realDateNow() + clockOffset);
+  selector = await import('../services/stock/product-selector');
+  api = await import('../services/target/api');
+  ledger = await import('../services/target/credit-ledger');
+  requestContext = await import('../utils/request-context');
+  circuit = await import('../services/target/circuit-breaker');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+  inStock = new Set();
+  fake.setHandler((params) => ({
+    body: storeStockBody([{ storeId: '1001', inStock: inStock.has(params.get('tcin') || '') }]),
+  }));
+});
+
+/**
+ * Build a single-group smart selection request
+ */
+function buildRequest(primaryId: string, backupIds: string[], extra: Partial<SmartSelectionRequest> = {}) {
+  return {
+    shortLink: 'https://incarts-us.web.app/test',
+    longLink: 'https://www.target.com/long',
+    zipCode: ZIP_CODE,
+    backups: [{ primaryId, backupIds }],
+    ...extra,
+  } as SmartSelectionRequest;
+}
+
+describe('lazy availability mode', () => {
+  it('counts only skipped products that would have cost a RedCircle call as saved', async () => {
+    inStock = new Set(['20000001']);
+    // One backup's stock is already cached, so skipping it saves nothing
+    await api.lookupStoreStock('20000003', ZIP_CODE);
+    fake.requests.length = 0;
+
+    const response = await selector.selectAvailableProducts(
+      buildRequest('20000001', ['20000002', '20000003', '20000004'], { availabilityMode: 'lazy' }),
+      ZIP_CODE,
+    );
+
+    expect(response.redirectUrl).toContain('20000001');
+    expect(fake.requests).toHaveLength(1);
+    expect(response.availabilityCheck).toMatchObject({
+      mode: 'lazy',
+      productsChecked: 1,
+      checkRounds: 1,
+      creditsSaved: 2,
+    });
+  });
+});
+
+describe('batch selection', () => {
+  it('attributes credits to the short link of the first item that needs each TCIN', async () => {
+    const context = { creditsUsed: 0 };
+
+    await requestContext.runWithRequestContext(context, () => selector.selectAvailableProductsBatch([
+      buildRequest('21000001', ['21000002'], { shortLink: 'https://incarts-us.web.app/batch-a' }),
+      buildRequest('21000002', ['21000003'], { shortLink: 'https://incarts-us.web.app/batch-b' }),
+    ]));
+
+    expect(fake.requests).toHaveLength(3);
+    expect(ledger.getCreditLedger().today.byShortLink).toMatchObject({
+      'https://incarts-us.web.app/batch-a': 2,
+      'https://incarts-us.web.app/batch-b': 1,
+    });
+    expect(context.creditsUsed).toBe(3);
+  });
+
+  it('reports stale data only for the products each item uses', async () => {
+    await api.lookupStoreStock('22000001', ZIP_CODE);
+    clockOffset += 400_000;
+
+    const [stale, fresh] = await selector.selectAvailableProductsBatch([
+      buildRequest('22000001', []),
+      buildRequest('22000002', []),
+    ]);
+
+    expect(stale).toMatchObject({ status: 'fulfilled', value: { staleDataUsed: true, staleDataAgeSeconds: 400 } });
+    expect(fresh).toMatchObject({ status: 'fulfilled', value: { staleDataUsed: false } });
+  });
+});
+
+describe('store planning', () => {
+  it('plans pickup only with products that offer pickup', async () => {
+    const pickupIds = new Set(['23000002']);
+    fake.setHandler((params) => (params.get('type') === 'product'
+      ? {
+        body: {
+          request_info: { credits_used: 1 },
+          product: { Fulfillment: { pickup: pickupIds.has(params.get('tcin') || '') } },
+        },
+      }
+      : {
+        body: storeStockBody([
+          { storeId: '1001', inStock: true, distance: 1 },
+          { storeId: '1002', inStock: true, distance: 2 },
+        ]),
+      }));
+
+    const response = await selector.selectAvailableProducts(
+      buildRequest('23000001', ['23000002'], { fulfillment: 'pickup', storeSelection: 'single' }),
+      ZIP_CODE,
+    );
+
+    expect(response.redirectUrl).toContain('23000002');
+    expect(response.backupsUsed).toBe(true);
+  });
+});
+
+describe('explain mode', () => {
+  it('reports why a lookup failed for each candidate', async () => {
+    circuit.recordCircuitFailure();
+
+    const response = await selector.selectAvailableProducts(
+      buildRequest('24000001', ['24000002'], { explain: true }),
+      ZIP_CODE,
+    );
+    circuit.recordCircuitSuccess();
+
+    expect(fake.requests).toHaveLength(0);
+    expect(response.explain?.groups[0]).toMatchObject({
+      outcome: 'ALL_UNAVAILABLE',
+      candidates: [
+        { productId: '24000001', checked: true, errorCode: 'CIRCUIT_OPEN' },
+        { productId: '24000002', checked: true, errorCode: 'CIRCUIT_OPEN' },
+      ],
+    });
+  });
+});
+
+describe('multi-item redirect', () => {
+  /**
+   * Request for two single-product groups, both in stock
+   */
+  function buildTwoGroupRequest(extra: Partial<SmartSelectionRequest> = {}) {
+    inStock = new Set(['27000001', '27000002']);
+    return {
+      ...buildRequest('27000001', []),
+      backups: [
+        { primaryId: '27000001', backupIds: [] },
+        { primaryId: '27000002', backupIds: [] },
+      ],
+      ...extra,
+    } as SmartSelectionRequest;
+  }
+
+  it('sends several selected products to a Target search page by default', async () => {
+    const response = await selector.selectAvailableProducts(buildTwoGroupRequest(), ZIP_CODE);
+
+    expect(response.redirectUrl).toBe('https://www.target.com/s?searchTerm=27000001+27000002');
+    expect(response.cartUrlType).toBe('search');
+  });
+
+  it('falls back to longLink when the request turns the multi-item strategy off', async () => {
+    const response = await selector.selectAvailableProducts(
+      buildTwoGroupRequest({ cartUrlOptions: { multiItemStrategy: 'none' } }),
+      ZIP_CODE,
+    );
+
+    expect(response.redirectUrl).toBe('https://www.target.com/long');
+    expect(response.cartUrlType).toBe('longLink');
+  });
+});
+
+describe('quantity allocation', () => {
+  /**
+   * Serve the given stock levels (TCINs not listed are out of stock)
+   *
+   * @param levels - stock_level by TCIN
+   */
+  function serveStockLevels(levels: Record<string, number>): void {
+    fake.setHandler((params) => {
+      const stockLevel = levels[params.get('tcin') || ''] ?? 0;
+      return { body: storeStockBody([{ storeId: '1001', inStock: stockLevel > 0, stockLevel }]) };
+    });
+  }
+
+  /**
+   * Select one group needing `quantity` units of the primary, with the next two TCINs as backups
+   *
+   * @param primaryId - Primary TCIN
+   * @param quantity - Units required
+   * @param allowSplit - Whether the quantity may be split across candidates
+   * @returns Smart selection response
+   */
+  function selectQuantity(primaryId: string, quantity: number, allowSplit: boolean) {
+    const backupIds = [1, 2].map((i) => String(Number(primaryId) + i));
+    return selector.selectAvailableProducts({
+      ...buildRequest(primaryId, []),
+      backups: [{
+        primaryId, backupIds, quantity, allowSplit,
+      }],
+    } as SmartSelectionRequest, ZIP_CODE);
+  }
+
+  it('splits the quantity across the primary and its backups in order', async () => {
+    serveStockLevels({ 28000001: 3, 28000002: 0, 28000003: 4 });
+
+    const response = await selectQuantity('28000001', 5, true);
+
+    expect(response.fulfillment).toEqual([{
+      primaryId: '28000001',
+      requestedQuantity: 5,
+      fulfilledQuantity: 5,
+      shortfall: 0,
+      allocations: [{ productId: '28000001', quantity: 3 }, { productId: '28000003', quantity: 2 }],
+    }]);
+  });
+
+  it('without allowSplit uses the first candidate that covers the whole quantity', async () => {
+    serveStockLevels({ 28000011: 3, 28000012: 4, 28000013: 6 });
+
+    const response = await selectQuantity('28000011', 5, false);
+
+    expect(response.fulfillment[0]).toMatchObject({
+      fulfilledQuantity: 5,
+      shortfall: 0,
+      allocations: [{ productId: '28000013', quantity: 5 }],
+    });
+    expect(response.backupProducts).toEqual([
+      expect.objectContaining({ originalId: '28000011', replacementId: '28000013', reason: 'INSUFFICIENT_QUANTITY' }),
+    ]);
+  });
+
+  it('without allowSplit refuses to split when no candidate covers the quantity', async () => {
+    serveStockLevels({ 28000021: 3, 28000022: 4, 28000023: 2 });
+
+    const response = await selectQuantity('28000021', 5, false);
+
+    expect(response.fulfillment[0]).toMatchObject({ fulfilledQuantity: 0, shortfall: 5, allocations: [] });
+    expect(response.allProductsUnavailable).toBe(true);
+  });
+
+  it('reports the shortfall when every candidate together falls short', async () => {
+    serveStockLevels({ 28000031: 2, 28000032: 1, 28000033: 0 });
+
+    const response = await selectQuantity('28000031', 5, true);
+
+    expect(response.fulfillment[0]).toMatchObject({
+      fulfilledQuantity: 3,
+      shortfall: 2,
+      allocations: [{ productId: '28000031', quantity: 2 }, { productId: '28000032', quantity: 1 }],
+    });
+  });
+});
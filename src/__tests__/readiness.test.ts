@@ -0,0 +1,54 @@
+/**
+ * Readiness status from upstream failures and the circuit breaker
+ */
+
+import { FakeRedCircle, startFakeRedCircle } from './helpers/fake-redcircle';
+
+type Readiness = typeof import('../services/health/readiness');
+type Api = typeof import('../services/target/api');
+
+let fake: FakeRedCircle;
+let readiness: Readiness;
+let api: Api;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ status: 500 }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.TARGET_API_RETRY_ATTEMPTS = '0';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '2';
+  process.env.LOG_LEVEL = 'error';
+  readiness = await import('../services/health/readiness');
+  api = await import('../services/target/api');
+});
+
+afterAll(() => fake.close());
+
+/**
+ * Make one RedCircle call that fails with a 500
+ */
+async function failUpstreamCall(): Promise<void> {
+  await expect(api.getProductByTcin('70000001', { skipCache: true })).rejects.toThrow();
+}
+
+describe('checkReadiness', () => {
+  it('is not ready while RedCircle fails and the circuit is closed', async () => {
+    await failUpstreamCall();
+
+    const report = await readiness.checkReadiness();
+
+    expect(report.status).toBe('not_ready');
+    expect(report.checks.upstream.status).toBe('fail');
+    expect(report.checks.circuit).toMatchObject({ status: 'ok', state: 'closed' });
+  });
+
+  it('is degraded, not unready, once the circuit opens', async () => {
+    await failUpstreamCall();
+
+    const report = await readiness.checkReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks.upstream.status).toBe('fail');
+    expect(report.checks.circuit).toMatchObject({ status: 'fail', state: 'open' });
+  });
+});
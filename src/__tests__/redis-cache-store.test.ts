@@ -0,0 +1,133 @@
+/**
+ * RedisCacheStore against an in-process Redis (ioredis-mock)
+ */
+
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+
+type CacheStores = typeof import('../utils/cache-stores');
+type Cache = typeof import('../utils/cache');
+
+let stores: CacheStores;
+let cache: Cache;
+let client: Redis;
+
+beforeAll(async () => {
+  process.env.REDIS_KEY_PREFIX = 'test:';
+  process.env.REDIS_KEY_COUNT_REFRESH_SECONDS = '60';
+  process.env.LOG_LEVEL = 'error';
+  stores = await import('../utils/cache-stores');
+  cache = await import('../utils/cache');
+  client = new RedisMock() as unknown as Redis;
+});
+
+beforeEach(async () => {
+  await client.flushall();
+  jest.restoreAllMocks();
+});
+
+/**
+ * Client whose commands all fail like an ioredis command timeout
+ */
+function createTimingOutClient(): Redis {
+  const fail = () => Promise.reject(new Error('Command timed out'));
+  return {
+    get: fail,
+    set: fail,
+    del: fail,
+    exists: fail,
+    scan: fail,
+    ping: fail,
+  } as unknown as Redis;
+}
+
+describe('RedisCacheStore', () => {
+  it('stores JSON values under the prefix and namespace', async () => {
+    const store = new stores.RedisCacheStore('stock', 300, client);
+
+    await store.set('04457:12345678', { inStock: true });
+
+    expect(await client.get('test:stock:04457:12345678')).toBe('{"inStock":true}');
+    expect(await store.get('04457:12345678')).toEqual({ inStock: true });
+    expect(await store.has('04457:12345678')).toBe(true);
+    expect(await store.get('missing')).toBeUndefined();
+    expect(await store.stats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('applies the default TTL, an explicit TTL, and no expiry for ttl=0', async () => {
+    const store = new stores.RedisCacheStore('product', 3600, client);
+
+    await store.set('default', 1);
+    await store.set('explicit', 1, 120);
+    await store.set('forever', 1, 0);
+
+    expect(await client.ttl('test:product:default')).toBe(3600);
+    expect(await client.ttl('test:product:explicit')).toBe(120);
+    expect(await client.ttl('test:product:forever')).toBe(-1);
+  });
+
+  it('clears only its own namespace', async () => {
+    const stock = new stores.RedisCacheStore('stock', 300, client);
+    const product = new stores.RedisCacheStore('product', 300, client);
+    await stock.set('a', 1);
+    await stock.set('b', 1);
+    await product.set('a', 1);
+
+    await stock.clear();
+
+    expect(await stock.get('a')).toBeUndefined();
+    expect(await product.get('a')).toBe(1);
+  });
+
+  it('treats failing commands (timeouts) as misses instead of throwing', async () => {
+    const store = new stores.RedisCacheStore('stock', 300, createTimingOutClient());
+
+    expect(await store.get('key')).toBeUndefined();
+    expect(await store.has('key')).toBe(false);
+    expect(await store.set('key', 1)).toBe(false);
+    expect(await store.delete('key')).toBe(0);
+    expect(await store.stats()).toMatchObject({ keys: 0, hits: 0, misses: 1 });
+    await expect(store.ping()).rejects.toThrow('Command timed out');
+  });
+
+  it('reuses the key count between stats calls instead of scanning each time', async () => {
+    const store = new stores.RedisCacheStore('stock', 300, client);
+    const scan = jest.spyOn(client, 'scan');
+    await store.set('a', 1);
+
+    expect((await store.stats()).keys).toBe(1);
+    await store.set('b', 1);
+    expect((await store.stats()).keys).toBe(1);
+    expect(scan).toHaveBeenCalledTimes(1);
+
+    // Once the count is older than REDIS_KEY_COUNT_REFRESH_SECONDS it is refreshed
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    await store.stats();
+    await new Promise((resolve) => { setImmediate(resolve); });
+    expect((await store.stats()).keys).toBe(2);
+  });
+});
+
+describe('timestamped entries in Redis', () => {
+  it('are fresh until the soft TTL, stale until the hard TTL, then evicted', async () => {
+    const store = new stores.RedisCacheStore('stock', 900, client);
+    const now = Date.now();
+
+    await cache.setTimestampedValue(store, 'entry', { stores: 3 }, 300);
+    expect(await client.ttl('test:stock:entry')).toBe(900);
+
+    expect(await cache.getTimestampedValue(store, 'entry')).toEqual({
+      data: { stores: 3 },
+      ageSeconds: 0,
+      stale: false,
+    });
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 400_000);
+    expect(await cache.getTimestampedValue(store, 'entry')).toMatchObject({ ageSeconds: 400, stale: true });
+
+    // Redis evicts the entry at the hard TTL
+    await client.del('test:stock:entry');
+    expect(await cache.getTimestampedValue(store, 'entry')).toBeUndefined();
+  });
+});
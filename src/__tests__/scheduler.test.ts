@@ -0,0 +1,86 @@
+/**
+ * Global RedCircle request scheduler: concurrency cap, token bucket, FIFO order and stats
+ */
+
+type Scheduler = typeof import('../services/target/scheduler');
+
+/**
+ * Load a fresh scheduler with the given limits
+ *
+ * @param maxConcurrency - TARGET_API_MAX_CONCURRENCY
+ * @param requestsPerSecond - TARGET_API_REQUESTS_PER_SECOND (also the burst capacity)
+ * @returns Scheduler module
+ */
+async function loadScheduler(maxConcurrency: number, requestsPerSecond: number): Promise<Scheduler> {
+  process.env.TARGET_API_MAX_CONCURRENCY = String(maxConcurrency);
+  process.env.TARGET_API_REQUESTS_PER_SECOND = String(requestsPerSecond);
+  process.env.LOG_LEVEL = 'error';
+  jest.resetModules();
+  return import('../services/target/scheduler');
+}
+
+/**
+ * Task that resolves after a delay
+ *
+ * @param ms - Delay in milliseconds
+ * @param onStart - Called when the scheduler starts the task
+ * @returns Task for scheduleRequest
+ */
+function sleepTask(ms: number, onStart: () => void = () => {}): () => Promise<void> {
+  return () => {
+    onStart();
+    return new Promise((resolve) => {
+      setTimeout(resolve, ms);
+    });
+  };
+}
+
+describe('scheduleRequest', () => {
+  it('caps the requests in flight and reports the queue depth', async () => {
+    const scheduler = await loadScheduler(2, 100);
+    let running = 0;
+    let maxRunning = 0;
+    const task = () => sleepTask(20, () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+    })().finally(() => {
+      running--;
+    });
+
+    const done = Promise.all(Array.from({ length: 5 }, () => scheduler.scheduleRequest(task)));
+
+    expect(scheduler.getSchedulerStats()).toMatchObject({ inFlight: 2, queueDepth: 3, scheduled: 5 });
+    await done;
+    expect(maxRunning).toBe(2);
+    expect(scheduler.getSchedulerStats()).toMatchObject({ inFlight: 0, queueDepth: 0, completed: 5 });
+  });
+
+  it('starts queued requests in the order they were scheduled', async () => {
+    const scheduler = await loadScheduler(1, 100);
+    const started: number[] = [];
+
+    await Promise.all([0, 1, 2, 3].map((index) => scheduler.scheduleRequest(sleepTask(5, () => {
+      started.push(index);
+    }))));
+
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('waits for the token bucket to refill once the burst is used and records the wait', async () => {
+    const scheduler = await loadScheduler(10, 2);
+    const startedAt: number[] = [];
+    const scheduledAt = Date.now();
+
+    await Promise.all([0, 1, 2].map(() => scheduler.scheduleRequest(sleepTask(0, () => {
+      startedAt.push(Date.now() - scheduledAt);
+    }))));
+
+    // Burst of 2, then one token every 500 ms
+    expect(startedAt[1]).toBeLessThan(100);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(450);
+    const stats = scheduler.getSchedulerStats();
+    expect(stats.maxWaitMs).toBeGreaterThanOrEqual(450);
+    expect(stats.averageWaitMs).toBeGreaterThanOrEqual(150);
+    expect(stats.oldestQueuedWaitMs).toBe(0);
+  });
+});
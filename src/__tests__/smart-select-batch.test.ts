@@ -0,0 +1,71 @@
+/**
+ * Batch smart-select endpoint through the Express app against a fake RedCircle server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+let fake: FakeRedCircle;
+let listener: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.LOG_LEVEL = 'error';
+  const { default: app } = await import('../index');
+
+  listener = http.createServer(app);
+  await new Promise<void>((resolve) => {
+    listener.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  listener.closeAllConnections();
+  await new Promise<void>((resolve) => {
+    listener.close(() => resolve());
+  });
+  await fake.close();
+});
+
+/**
+ * Build a valid batch item
+ *
+ * @param primaryId - Primary TCIN
+ * @param backups - Backup groups (defaults to one group for primaryId)
+ * @returns Batch item
+ */
+function batchItem(primaryId: string, backups: unknown[] = [{ primaryId, backupIds: [] }]) {
+  return {
+    shortLink: `https://incarts-us.web.app/${primaryId}`,
+    longLink: 'https://www.target.com/long',
+    zipCode: '04457',
+    backups,
+  };
+}
+
+describe('POST /api/stock/smart-select/batch', () => {
+  it.each<[string, unknown]>([
+    ['null', null],
+    ['a number', 1],
+  ])('reports an item whose backup group is %s on its own', async (_, group) => {
+    const response = await fetch(`${baseUrl}/api/stock/smart-select/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requests: [batchItem('80000001'), batchItem('80000002', [group])] }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      results: [
+        { index: 0, success: true, data: { allProductsUnavailable: false } },
+        { index: 1, success: false, error: { code: 'VALIDATION_ERROR', field: 'requests[1].backups[0]' } },
+      ],
+      summary: { total: 2, succeeded: 1, failed: 1 },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * RedCircle client retries: backoff, Retry-After, deadline and non-retryable errors
+ * (one request in flight at a time, so later requests queue)
+ */
+
+import { ApiError } from '../types';
+import { FakeRedCircle, startFakeRedCircle } from './helpers/fake-redcircle';
+
+type Api = typeof import('../services/target/api');
+
+let fake: FakeRedCircle;
+let api: Api;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle();
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.TARGET_API_RETRY_BASE_DELAY_MS = '10';
+  process.env.TARGET_API_RETRY_MAX_DELAY_MS = '20';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '0';
+  process.env.TARGET_API_MAX_CONCURRENCY = '1';
+  process.env.LOG_LEVEL = 'error';
+  api = await import('../services/target/api');
+});
+
+afterAll(() => fake.close());
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+/**
+ * Call getProductByTcin (bypassing the cache) and return the ApiError it throws
+ */
+async function expectApiError(tcin: string, options = {}): Promise<ApiError> {
+  const error = await api.getProductByTcin(tcin, { skipCache: true, ...options }).catch((e) => e);
+  expect(error).toBeInstanceOf(ApiError);
+  return error as ApiError;
+}
+
+describe('executeRequest retries', () => {
+  it('retries 5xx responses and returns the first success', async () => {
+    fake.setHandler(() => (fake.requests.length < 3
+      ? { status: 503 }
+      : { body: { request_info: { credits_used: 1 }, Product: { Tcin: '10000001' } } }));
+
+    const response = await api.getProductByTcin('10000001', { skipCache: true });
+
+    expect(response.Product?.Tcin).toBe('10000001');
+    expect(fake.requests).toHaveLength(3);
+    expect(fake.requests[0].get('api_key')).toBe('test-key-123456');
+  });
+
+  it('gives up after retryAttempts and reports the attempts made', async () => {
+    fake.setHandler(() => ({ status: 500 }));
+
+    const error = await expectApiError('10000002', { retryAttempts: 2 });
+
+    expect(error.code).toBe(500);
+    expect(error.details?.attempts).toBe(3);
+    expect(fake.requests).toHaveLength(3);
+  });
+
+  it.each([
+    [400, 400],
+    [401, 'UNAUTHORIZED'],
+    [404, 'PRODUCT_NOT_FOUND'],
+  ])('does not retry a %i response', async (status, code) => {
+    fake.setHandler(() => ({ status }));
+
+    const error = await expectApiError('10000003');
+
+    expect(error.code).toBe(code);
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('waits for Retry-After on 429 before retrying', async () => {
+    const sentAt: number[] = [];
+    fake.setHandler(() => {
+      sentAt.push(Date.now());
+      return sentAt.length === 1
+        ? { status: 429, headers: { 'Retry-After': '0.3' } }
+        : { body: { request_info: { credits_used: 1 } } };
+    });
+
+    await api.getProductByTcin('10000004', { skipCache: true });
+
+    expect(fake.requests).toHaveLength(2);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(280);
+  });
+
+  it('does not retry when Retry-After would pass the deadline', async () => {
+    fake.setHandler(() => ({ status: 429, headers: { 'Retry-After': '5' } }));
+
+    const startedAt = Date.now();
+    const error = await expectApiError('10000005', { deadlineMs: 1000 });
+
+    expect(error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(fake.requests).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('caps each attempt at the time left before the deadline', async () => {
+    fake.setHandler(() => ({ delayMs: 2000 }));
+
+    const startedAt = Date.now();
+    const error = await expectApiError('10000006', { deadlineMs: 300, retryAttempts: 5 });
+
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('does not send an attempt whose deadline passed while it was queued', async () => {
+    fake.setHandler(() => ({ body: { request_info: { credits_used: 1 } }, delayMs: 300 }));
+
+    const [first, queued] = await Promise.all([
+      api.getProductByTcin('10000007', { skipCache: true }),
+      expectApiError('10000008', { deadlineMs: 100 }),
+    ]);
+
+    expect(first.request_info?.credits_used).toBe(1);
+    expect(queued.code).toBe('DEADLINE_EXCEEDED');
+    expect(fake.requests.map((params) => params.get('tcin'))).toEqual(['10000007']);
+  });
+});
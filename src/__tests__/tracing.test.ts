@@ -0,0 +1,99 @@
+/**
+ * Request spans recorded by the in-memory exporter (OTEL_TRACES_EXPORTER=memory)
+ */
+
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ReadableSpan } from '@opentelemetry/sdk-trace-node';
+import { SmartSelectionRequest } from '../types';
+import { FakeRedCircle, startFakeRedCircle, storeStockBody } from './helpers/fake-redcircle';
+
+type Tracing = typeof import('../utils/tracing');
+type Selector = typeof import('../services/stock/product-selector');
+type Api = typeof import('../services/target/api');
+
+let fake: FakeRedCircle;
+let tracing: Tracing;
+let selector: Selector;
+let api: Api;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({ body: storeStockBody([{ storeId: '1001', inStock: true }]) }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.TARGET_API_RETRY_ATTEMPTS = '0';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '0';
+  process.env.OTEL_TRACES_EXPORTER = 'memory';
+  process.env.LOG_LEVEL = 'error';
+  tracing = await import('../utils/tracing');
+  selector = await import('../services/stock/product-selector');
+  api = await import('../services/target/api');
+  tracing.startTracing();
+});
+
+afterAll(async () => {
+  await tracing.stopTracing();
+  await fake.close();
+});
+
+beforeEach(() => {
+  tracing.resetFinishedSpans();
+});
+
+/**
+ * Find a finished span by name
+ *
+ * @param name - Span name
+ * @returns Span (fails the test if missing)
+ */
+function findSpan(name: string): ReadableSpan {
+  const span = tracing.getFinishedSpans().find((finished) => finished.name === name);
+  expect(span).toBeDefined();
+  return span as ReadableSpan;
+}
+
+/**
+ * Parent span ID of a span
+ *
+ * @param span - Finished span
+ * @returns Parent span ID (undefined for a root span)
+ */
+function parentOf(span: ReadableSpan): string | undefined {
+  return span.parentSpanContext?.spanId;
+}
+
+describe('request spans', () => {
+  it('nest smart-select, availability, stock lookup and RedCircle spans', async () => {
+    await selector.selectAvailableProducts({
+      shortLink: 'https://incarts-us.web.app/trace',
+      longLink: 'https://www.target.com/long',
+      zipCode: '04457',
+      backups: [{ primaryId: '60000001', backupIds: [] }],
+    } as SmartSelectionRequest, '04457');
+
+    const select = findSpan('selectAvailableProducts');
+    const availability = findSpan('checkBatchAvailability');
+    const lookup = findSpan('checkStoreStock');
+    const redcircle = findSpan('redcircle store_stock');
+
+    expect(parentOf(availability)).toBe(select.spanContext().spanId);
+    expect(parentOf(lookup)).toBe(availability.spanContext().spanId);
+    expect(parentOf(redcircle)).toBe(lookup.spanContext().spanId);
+
+    expect(select.attributes).toMatchObject({ 'app.zip_code': '04457', 'app.substitutions': 0 });
+    expect(availability.attributes).toMatchObject({ 'app.tcins': ['60000001'], 'app.in_stock_count': 1 });
+    expect(lookup.attributes).toMatchObject({ 'app.tcin': '60000001', 'app.cache_hit': false });
+    expect(redcircle.attributes).toMatchObject({ 'redcircle.attempts': 1, 'app.credits_used': 1 });
+    expect(redcircle.status.code).not.toBe(SpanStatusCode.ERROR);
+  });
+
+  it('mark failed RedCircle requests as errors with the error code', async () => {
+    fake.setHandler(() => ({ status: 404 }));
+
+    await expect(api.getProductByTcin('60000002', { skipCache: true })).rejects.toThrow();
+
+    const redcircle = findSpan('redcircle product');
+    expect(redcircle.status.code).toBe(SpanStatusCode.ERROR);
+    expect(redcircle.attributes).toMatchObject({ 'error.code': 'PRODUCT_NOT_FOUND' });
+    expect(redcircle.events.map((event) => event.name)).toContain('exception');
+  });
+});
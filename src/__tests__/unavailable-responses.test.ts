@@ -0,0 +1,81 @@
+/**
+ * 503 responses while the circuit is open or the daily credit budget is used up,
+ * through the Express app against a fake RedCircle server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FakeRedCircle, startFakeRedCircle } from './helpers/fake-redcircle';
+
+type Circuit = typeof import('../services/target/circuit-breaker');
+
+let fake: FakeRedCircle;
+let circuit: Circuit;
+let listener: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  fake = await startFakeRedCircle(() => ({
+    body: { request_info: { credits_used: 5 }, product: { Title: 'Product' }, search_results: [] },
+  }));
+  process.env.TARGET_API_BASE_URL = fake.url;
+  process.env.TARGET_API_KEY = 'test-key-123456';
+  process.env.CIRCUIT_FAILURE_THRESHOLD = '1';
+  process.env.CIRCUIT_OPEN_SECONDS = '30';
+  process.env.REDCIRCLE_INSTANCE_DAILY_CREDIT_BUDGET = '5';
+  process.env.LOG_LEVEL = 'error';
+  const { default: app } = await import('../index');
+  circuit = await import('../services/target/circuit-breaker');
+
+  listener = http.createServer(app);
+  await new Promise<void>((resolve) => {
+    listener.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  listener.closeAllConnections();
+  await new Promise<void>((resolve) => {
+    listener.close(() => resolve());
+  });
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.requests.length = 0;
+});
+
+describe('temporarily unavailable RedCircle calls', () => {
+  it('return 503 CIRCUIT_OPEN with Retry-After until the circuit half-opens', async () => {
+    circuit.recordCircuitFailure();
+
+    const response = await fetch(`${baseUrl}/api/products/70000001`);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: { code: 'CIRCUIT_OPEN' } });
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(25);
+    expect(Number(response.headers.get('retry-after'))).toBeLessThanOrEqual(30);
+    expect(fake.requests).toHaveLength(0);
+    circuit.recordCircuitSuccess();
+  });
+
+  it('return 503 CREDIT_BUDGET_EXHAUSTED with Retry-After until the next UTC day', async () => {
+    // Spends the whole budget of 5 credits
+    expect((await fetch(`${baseUrl}/api/products/70000002`)).status).toBe(200);
+
+    const [byTcin, byUpc] = await Promise.all([
+      fetch(`${baseUrl}/api/products/70000003`),
+      fetch(`${baseUrl}/api/products/upc/012345678905`),
+    ]);
+
+    const secondsToMidnight = Math.ceil((new Date().setUTCHours(24, 0, 0, 0) - Date.now()) / 1000);
+    const bodies = await Promise.all([byTcin.json(), byUpc.json()]);
+    [byTcin, byUpc].forEach((response, i) => {
+      expect(response.status).toBe(503);
+      expect(bodies[i]).toMatchObject({ error: { code: 'CREDIT_BUDGET_EXHAUSTED' } });
+      expect(Math.abs(Number(response.headers.get('retry-after')) - secondsToMidnight)).toBeLessThanOrEqual(5);
+    });
+    expect(fake.requests).toHaveLength(1);
+  });
+});
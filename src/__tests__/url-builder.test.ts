@@ -0,0 +1,96 @@
+/**
+ * Multi-item destination URLs: search and template strategies, and the default strategy
+ */
+
+import { SelectedProduct } from '../types';
+
+type UrlBuilder = typeof import('../services/target/url-builder');
+
+/**
+ * Load a fresh URL builder with the given settings
+ *
+ * @param strategy - TARGET_MULTI_ITEM_STRATEGY (undefined = not set)
+ * @param template - TARGET_MULTI_ITEM_URL_TEMPLATE (undefined = not set)
+ * @returns URL builder module
+ */
+async function loadUrlBuilder(strategy?: string, template?: string): Promise<UrlBuilder> {
+  if (strategy === undefined) {
+    delete process.env.TARGET_MULTI_ITEM_STRATEGY;
+  } else {
+    process.env.TARGET_MULTI_ITEM_STRATEGY = strategy;
+  }
+  if (template === undefined) {
+    delete process.env.TARGET_MULTI_ITEM_URL_TEMPLATE;
+  } else {
+    process.env.TARGET_MULTI_ITEM_URL_TEMPLATE = template;
+  }
+  process.env.LOG_LEVEL = 'error';
+  jest.resetModules();
+  return import('../services/target/url-builder');
+}
+
+/**
+ * Build selected products
+ *
+ * @param items - TCIN and optional quantity per product
+ * @returns Selected products
+ */
+function selected(...items: Array<[string, number?]>): SelectedProduct[] {
+  return items.map(([productId, quantity]) => ({ productId, quantity } as SelectedProduct));
+}
+
+describe('buildMultiItemUrl', () => {
+  it('defaults to the search strategy when TARGET_MULTI_ITEM_STRATEGY is not set', async () => {
+    const builder = await loadUrlBuilder();
+
+    expect(builder.getDefaultMultiItemStrategy()).toBe('search');
+    expect(builder.buildMultiItemUrl(selected(['12345678', 2], ['87654321']))).toEqual({
+      url: 'https://www.target.com/s?searchTerm=12345678+87654321',
+      strategy: 'search',
+    });
+  });
+
+  it.each(['template', 'none'])('uses TARGET_MULTI_ITEM_STRATEGY=%s as the default', async (strategy) => {
+    const builder = await loadUrlBuilder(strategy, 'https://example.com/list?tcins={tcins}');
+
+    expect(builder.getDefaultMultiItemStrategy()).toBe(strategy);
+  });
+
+  it('ignores an unknown TARGET_MULTI_ITEM_STRATEGY', async () => {
+    const builder = await loadUrlBuilder('cart');
+
+    expect(builder.getDefaultMultiItemStrategy()).toBe('search');
+  });
+
+  it('fills and encodes every template placeholder', async () => {
+    const builder = await loadUrlBuilder(
+      'template',
+      'https://example.com/list?tcins={tcins}&items={items}&ref={shortLink}&again={tcins}',
+    );
+
+    const result = builder.buildMultiItemUrl(
+      selected(['12345678', 3], ['8765/4321']),
+      undefined,
+      { shortLink: 'https://incarts-us.web.app/a?b=1&c=2' },
+    );
+
+    expect(result).toEqual({
+      url: 'https://example.com/list?tcins=12345678,8765%2F4321&items=12345678:3,8765%2F4321:1'
+        + '&ref=https%3A%2F%2Fincarts-us.web.app%2Fa%3Fb%3D1%26c%3D2&again=12345678,8765%2F4321',
+      strategy: 'template',
+    });
+  });
+
+  it('returns null for the template strategy without a template, so callers fall back', async () => {
+    const builder = await loadUrlBuilder();
+
+    expect(builder.buildMultiItemUrl(selected(['12345678']), 'template')).toBeNull();
+  });
+
+  it('returns null for the none strategy and for no products', async () => {
+    const builder = await loadUrlBuilder();
+
+    expect(builder.buildMultiItemUrl(selected(['12345678']), 'none')).toBeNull();
+    expect(builder.buildMultiItemUrl([], 'search')).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview API client key configuration
+ * @description Loads API keys with per-client route access, rate limits and daily credit quotas
+ * from API_KEYS_FILE (path to JSON) or API_KEYS (inline JSON, e.g., from Secret Manager)
+ * @module config/api-keys
+ * @related middleware/auth.ts, types/index.ts
+ */
+
+import fs from 'fs';
+import { ApiClientConfig } from '../types';
+
+/**
+ * Default per-minute rate limit for clients that don't set one
+ */
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = parseInt(
+  process.env.API_CLIENT_DEFAULT_RATE_LIMIT_PER_MINUTE || '60',
+  10,
+);
+
+/**
+ * Load and validate configured API clients
+ *
+ * @returns Configured clients (empty if neither API_KEYS_FILE nor API_KEYS is set)
+ * @throws Error if the configuration is malformed
+ *
+ * @example
+ * // API_KEYS='[{"key":"abc","clientId":"qa-jobs","allowedRoutes":["POST /api/stock/*"],"dailyCreditQuota":500}]'
+ * const clients = loadApiClients();
+ */
+export function loadApiClients(): ApiClientConfig[] {
+  let raw: string | undefined;
+
+  if (process.env.API_KEYS_FILE) {
+    raw = fs.readFileSync(process.env.API_KEYS_FILE, 'utf8');
+  } else if (process.env.API_KEYS) {
+    raw = process.env.API_KEYS;
+  }
+
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error('API key configuration must be a JSON array');
+  }
+
+  const seenKeys = new Set<string>();
+
+  return parsed.map((entry, i) => {
+    const client = entry as Partial<ApiClientConfig>;
+
+    if (!client || typeof client.key !== 'string' || client.key.length === 0) {
+      throw new Error(`API key configuration [${i}].key must be a non-empty string`);
+    }
+
+    if (typeof client.clientId !== 'string' || client.clientId.length === 0) {
+      throw new Error(`API key configuration [${i}].clientId must be a non-empty string`);
+    }
+
+    if (!Array.isArray(client.allowedRoutes)) {
+      throw new Error(`API key configuration [${i}].allowedRoutes must be an array`);
+    }
+
+    if (seenKeys.has(client.key)) {
+      throw new Error(`API key configuration [${i}] duplicates another key`);
+    }
+    seenKeys.add(client.key);
+
+    return {
+      key: client.key,
+      clientId: client.clientId,
+      allowedRoutes: client.allowedRoutes,
+      rateLimitPerMinute: client.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      dailyCreditQuota: client.dailyCreditQuota,
+    };
+  });
+}
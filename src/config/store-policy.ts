@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Store eligibility policy defaults
+ * @description Server-default store policy (distance radius, minimum stock, allow/deny lists,
+ * preferred-store chain) and merging with request-level overrides
+ * @module config/store-policy
+ * @related services/stock/availability.ts, types/index.ts
+ */
+
+import { StorePolicy } from '../types';
+
+/**
+ * Server-default policy from environment variables (unset fields don't filter)
+ */
+const DEFAULT_STORE_POLICY: StorePolicy = {
+  maxDistanceMiles: parseOptionalNumber(process.env.STORE_MAX_DISTANCE_MILES),
+  minStockLevel: parseOptionalNumber(process.env.STORE_MIN_STOCK_LEVEL),
+  allowStoreIds: parseIdList(process.env.STORE_ALLOW_IDS),
+  denyStoreIds: parseIdList(process.env.STORE_DENY_IDS),
+  preferredStoreIds: parseIdList(process.env.STORE_PREFERRED_IDS),
+};
+
+/**
+ * Merge a request-level policy over the server defaults (field by field)
+ *
+ * @param requestPolicy - Policy from the request
+ * @returns Effective store policy
+ *
+ * @example
+ * // STORE_MAX_DISTANCE_MILES=15
+ * resolveStorePolicy({ minStockLevel: 2 });
+ * // Returns: { maxDistanceMiles: 15, minStockLevel: 2, ... }
+ */
+export function resolveStorePolicy(requestPolicy?: StorePolicy): StorePolicy {
+  return {
+    maxDistanceMiles: requestPolicy?.maxDistanceMiles ?? DEFAULT_STORE_POLICY.maxDistanceMiles,
+    minStockLevel: requestPolicy?.minStockLevel ?? DEFAULT_STORE_POLICY.minStockLevel,
+    allowStoreIds: requestPolicy?.allowStoreIds ?? DEFAULT_STORE_POLICY.allowStoreIds,
+    denyStoreIds: requestPolicy?.denyStoreIds ?? DEFAULT_STORE_POLICY.denyStoreIds,
+    preferredStoreIds: requestPolicy?.preferredStoreIds ?? DEFAULT_STORE_POLICY.preferredStoreIds,
+  };
+}
+
+/**
+ * Parse an optional numeric env var
+ *
+ * @param value - Raw value
+ * @returns Number or undefined if unset/invalid
+ */
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse a comma-separated store ID list
+ *
+ * @param value - Raw value (e.g. "1771,2045")
+ * @returns Store IDs or undefined if unset
+ */
+function parseIdList(value: string | undefined): string[] | undefined {
+  const ids = (value || '').split(',').map((id) => id.trim()).filter(Boolean);
+  return ids.length > 0 ? ids : undefined;
+}
@@ -20,11 +20,14 @@ Backend API for intelligent Target product selection with automatic backup subst
 - Smart product availability checking via Target RedCircle API
 - Automatic backup product substitution when primary products are unavailable
 - Store-specific inventory validation
-- Two-layer caching system (stock: 5min, products: 1hr)
+- Two-layer caching system (stock: 5min, products: 1hr) with in-memory or Redis backend
 - Concurrent product checking for optimal performance
 
 **Authentication:**
 Requires RedCircle API key configured via environment variable.
+When API keys are configured (API_KEYS / API_KEYS_FILE), every /api route except
+/api/health requires an \`X-API-Key\` header (or \`Authorization: Bearer <key>\`).
+Each key has its own allowed routes, per-minute rate limit and daily credit quota.
       `.trim(),
       contact: {
         name: 'API Support',
@@ -46,7 +49,7 @@ Requires RedCircle API key configured via environment variable.
     tags: [
       {
         name: 'Health',
-        description: 'Health check and service status endpoints',
+        description: 'Health check, service status and metrics endpoints',
       },
       {
         name: 'Stock',
@@ -60,9 +63,85 @@ Requires RedCircle API key configured via environment variable.
         name: 'Info',
         description: 'API information and metadata',
       },
+      {
+        name: 'Admin',
+        description: 'Operational endpoints (cache warming, credit ledger, analytics). Require the admin key',
+      },
     ],
     components: {
       schemas: {
+        LivenessResponse: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', example: 'ok' },
+            timestamp: { type: 'string', format: 'date-time', example: '2025-10-31T12:00:00.000Z' },
+            uptime: { type: 'number', example: 3600, description: 'Server uptime in seconds' },
+          },
+        },
+        ReadinessResponse: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'string',
+              enum: ['ready', 'degraded', 'not_ready'],
+              example: 'ready',
+              description: 'not_ready (HTTP 503): cache backend failing, or RedCircle failing while the circuit '
+                + 'is closed. degraded: daily credit budget used up or RedCircle circuit open (even with '
+                + 'RedCircle failing), answering from cache',
+            },
+            timestamp: { type: 'string', format: 'date-time', example: '2025-10-31T12:00:00.000Z' },
+            checks: {
+              type: 'object',
+              properties: {
+                cache: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', enum: ['ok', 'fail'], example: 'ok' },
+                    backend: { type: 'string', enum: ['memory', 'redis'], example: 'redis' },
+                    latencyMs: { type: 'integer', example: 2 },
+                    error: { type: 'string', description: 'Present when the backend did not answer' },
+                  },
+                },
+                upstream: {
+                  type: 'object',
+                  description: 'RedCircle reachability from recent calls, or from a probe (1 credit) '
+                    + 'when there were none within HEALTH_UPSTREAM_PROBE_INTERVAL_SECONDS',
+                  properties: {
+                    status: { type: 'string', enum: ['ok', 'fail', 'skipped'], example: 'ok' },
+                    source: { type: 'string', enum: ['traffic', 'probe', 'none'], example: 'traffic' },
+                    checkedAt: { type: 'string', format: 'date-time', description: 'Time of the call the status is based on' },
+                    ageSeconds: { type: 'integer', example: 12 },
+                    errorCode: { oneOf: [{ type: 'string' }, { type: 'integer' }], example: 'NETWORK_ERROR' },
+                  },
+                },
+                circuit: {
+                  type: 'object',
+                  description: 'RedCircle circuit breaker; fail while it refuses calls',
+                  properties: {
+                    status: { type: 'string', enum: ['ok', 'fail'], example: 'ok' },
+                    state: { type: 'string', enum: ['closed', 'open', 'half_open'], example: 'closed' },
+                    retryAt: { type: 'string', format: 'date-time', description: 'When an open circuit lets a probe through' },
+                  },
+                },
+                credits: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string', enum: ['ok', 'low', 'exhausted'], example: 'ok' },
+                    cacheOnlyMode: { type: 'boolean', example: false },
+                    dailyBudget: { type: 'integer', nullable: true, example: 5000 },
+                    dailyBudgetRemaining: { type: 'integer', nullable: true, example: 4120 },
+                    creditsRemaining: {
+                      type: 'integer',
+                      nullable: true,
+                      example: 98000,
+                      description: 'RedCircle account balance from the latest response',
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         HealthCheckResponse: {
           type: 'object',
           properties: {
@@ -92,6 +171,59 @@ Requires RedCircle API key configured via environment variable.
               example: true,
               description: 'Whether RedCircle API key is configured',
             },
+            cacheBackend: {
+              type: 'string',
+              enum: ['memory', 'redis'],
+              example: 'memory',
+              description: 'Cache backend in use (CACHE_BACKEND)',
+            },
+            scheduler: {
+              type: 'object',
+              description: 'RedCircle request scheduler state (concurrency cap and rate limit)',
+              properties: {
+                maxConcurrency: { type: 'integer', example: 5 },
+                requestsPerSecond: { type: 'integer', example: 10 },
+                queueDepth: { type: 'integer', example: 0, description: 'Requests waiting for a slot' },
+                inFlight: { type: 'integer', example: 2, description: 'Requests currently in flight' },
+                scheduled: { type: 'integer', example: 120 },
+                completed: { type: 'integer', example: 118 },
+                averageWaitMs: { type: 'integer', example: 35, description: 'Average time spent queued' },
+                maxWaitMs: { type: 'integer', example: 480, description: 'Longest time spent queued' },
+                oldestQueuedWaitMs: { type: 'integer', example: 0 },
+              },
+            },
+            coalescing: {
+              type: 'object',
+              description: 'In-flight request coalescing counters (identical concurrent RedCircle calls share one request)',
+              properties: {
+                pending: { type: 'integer', example: 1, description: 'Upstream requests currently shared' },
+                started: { type: 'integer', example: 240, description: 'Upstream requests started' },
+                coalesced: { type: 'integer', example: 18, description: 'Calls that joined a pending request' },
+                byType: {
+                  type: 'object',
+                  description: 'Counters per request type (store_stock, product, gtin, search)',
+                  additionalProperties: {
+                    type: 'object',
+                    properties: {
+                      started: { type: 'integer' },
+                      coalesced: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+            circuit: {
+              type: 'object',
+              description: 'RedCircle circuit breaker (open: calls fail fast and smart-select answers in degraded mode)',
+              properties: {
+                state: { type: 'string', enum: ['closed', 'open', 'half_open'], example: 'closed' },
+                consecutiveFailures: { type: 'integer', example: 0 },
+                failureThreshold: { type: 'integer', example: 5 },
+                openedAt: { type: 'string', format: 'date-time', description: 'When the circuit last opened' },
+                retryAt: { type: 'string', format: 'date-time', description: 'When an open circuit lets a probe through' },
+                timesOpened: { type: 'integer', example: 0 },
+              },
+            },
           },
         },
         BackupMapping: {
@@ -109,6 +241,17 @@ Requires RedCircle API key configured via environment variable.
               example: ['87654321', '11223344'],
               description: 'Array of 8-digit Target TCINs for backup products (checked in order)',
             },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              example: 2,
+              description: 'Units required (default 1). A product is usable only if the chosen store has at least this many',
+            },
+            allowSplit: {
+              type: 'boolean',
+              example: false,
+              description: 'Fill the quantity across the primary and its backups (in order) when no single product covers it',
+            },
           },
         },
         SmartSelectRequest: {
@@ -152,6 +295,63 @@ Requires RedCircle API key configured via environment variable.
               example: true,
               description: 'Allow Product Detail Page (PDP) URLs when cart URLs unavailable',
             },
+            availabilityMode: {
+              type: 'string',
+              enum: ['eager', 'lazy'],
+              example: 'lazy',
+              description: 'eager checks every primary and backup at once; lazy checks primaries first, then one backup tier at a time only for groups that still need a substitute',
+            },
+            cartUrlOptions: {
+              type: 'object',
+              properties: {
+                mode: {
+                  type: 'string',
+                  enum: ['auto', 'offers', 'items'],
+                  description: 'All modes use the multi-item strategy for Target (no offer IDs, so offers = items)',
+                },
+                multiItemStrategy: {
+                  type: 'string',
+                  enum: ['search', 'template', 'none'],
+                  description: 'How several selected products become one URL (default: TARGET_MULTI_ITEM_STRATEGY)',
+                },
+              },
+            },
+            fulfillment: {
+              type: 'string',
+              enum: ['in_store', 'pickup', 'delivery', 'shipping'],
+              example: 'shipping',
+              description: 'Channel a product must qualify for (default in_store). Channels other than in_store also fetch product fulfillment options (cached 1 hour); shipping does not need nearby store stock',
+            },
+            storePolicy: {
+              $ref: '#/components/schemas/StorePolicy',
+            },
+            backupRanking: {
+              type: 'string',
+              enum: ['order', 'price', 'rating'],
+              example: 'price',
+              description: 'Order backups are tried in: order (array order, default: BACKUP_RANKING_MODE), price (closest price to the primary first) or rating (highest first). price/rating look up product details (cached 1 hour)',
+            },
+            autoBackups: {
+              type: 'boolean',
+              example: false,
+              description: 'When a group\'s primary and backups are all unavailable, propose in-stock backups from the primary\'s variants, then a brand + title search (capped by AUTO_BACKUP_MAX_CANDIDATES and AUTO_BACKUP_MAX_CREDITS)',
+            },
+            maxPriceIncreasePercent: {
+              type: 'number',
+              example: 20,
+              description: 'Skip backups priced more than this percentage above their primary (backups with unknown prices are kept)',
+            },
+            storeSelection: {
+              type: 'string',
+              enum: ['nearest', 'single', 'fewest'],
+              example: 'single',
+              description: 'nearest (default) picks a store per product; single picks one store that fills the most groups; fewest uses as few stores as possible. single/fewest always check availability eagerly and are ignored for delivery/shipping',
+            },
+            explain: {
+              type: 'boolean',
+              example: false,
+              description: 'Return a decision trace (explain) with the response. Explain requests are not logged as substitution analytics',
+            },
           },
         },
         BackupProductUsed: {
@@ -170,10 +370,15 @@ Requires RedCircle API key configured via environment variable.
             },
             reason: {
               type: 'string',
-              enum: ['OUT_OF_STOCK', 'PRIMARY_UNUSABLE'],
+              enum: ['OUT_OF_STOCK', 'PRIMARY_UNUSABLE', 'INSUFFICIENT_QUANTITY'],
               example: 'OUT_OF_STOCK',
               description: 'Reason for substitution',
             },
+            autoSource: {
+              type: 'string',
+              enum: ['variant', 'search'],
+              description: 'Present when the replacement was discovered by autoBackups instead of listed in backupIds',
+            },
           },
         },
         CartOptionsSummary: {
@@ -200,6 +405,12 @@ Requires RedCircle API key configured via environment variable.
               example: 'pdp',
               description: 'Final URL type that was generated',
             },
+            multiItemStrategy: {
+              type: 'string',
+              enum: ['search', 'template', 'none'],
+              example: 'search',
+              description: 'Multi-item strategy attempted when several products were selected',
+            },
           },
         },
         SmartSelectResponse: {
@@ -228,18 +439,497 @@ Requires RedCircle API key configured via environment variable.
             },
             cartUrlType: {
               type: 'string',
-              enum: ['pdp', 'longLink', 'custom'],
+              enum: ['pdp', 'search', 'template', 'longLink', 'custom'],
               example: 'pdp',
-              description: 'Type of URL returned: pdp (product detail page), longLink (original URL), or custom (custom fallback)',
+              description: 'Type of URL returned: pdp (product detail page), search (Target search page for several TCINs), template (configured multi-item landing page), longLink (original URL), or custom (custom fallback)',
             },
             storeIdAttached: {
               type: 'string',
               nullable: true,
-              description: 'Store ID included in the URL (omitted for Target since product URLs do not support store parameters)',
+              description: 'Store to pick everything up from, set when storeSelection placed all covered groups in one store (Target URLs themselves carry no store parameter)',
             },
             cartOptionsSummary: {
               $ref: '#/components/schemas/CartOptionsSummary',
             },
+            fulfillment: {
+              type: 'array',
+              description: 'Quantity fulfilled per backup group, in request order',
+              items: { $ref: '#/components/schemas/GroupFulfillment' },
+            },
+            availabilityCheck: {
+              $ref: '#/components/schemas/AvailabilityCheckSummary',
+            },
+            staleDataUsed: {
+              type: 'boolean',
+              example: false,
+              description: 'Whether any availability data was served from cache past its soft TTL (refreshed in the background)',
+            },
+            staleDataAgeSeconds: {
+              type: 'integer',
+              example: 340,
+              description: 'Age in seconds of the oldest stale availability data (present only when staleDataUsed is true)',
+            },
+            cacheOnly: {
+              type: 'boolean',
+              example: true,
+              description: 'Present when the daily RedCircle credit budget is used up; only cached availability was used',
+            },
+            degraded: {
+              type: 'boolean',
+              example: true,
+              description: 'Present when the RedCircle circuit breaker was open or refused any of the request\'s '
+                + 'lookups; answered from cached availability, '
+                + 'or else the primary product page (single group) or the fallback URL',
+            },
+            explain: {
+              $ref: '#/components/schemas/SelectionExplanation',
+            },
+            storePlan: {
+              $ref: '#/components/schemas/StorePlan',
+            },
+            prices: {
+              type: 'array',
+              description: 'Price of each chosen product (present when backupRanking or maxPriceIncreasePercent looked prices up)',
+              items: {
+                type: 'object',
+                properties: {
+                  productId: { type: 'string', example: '87654321' },
+                  primaryId: { type: 'string', example: '12345678' },
+                  price: { type: 'number', example: 11.99 },
+                  currency: { type: 'string', example: 'USD' },
+                  priceChangePercent: {
+                    type: 'number',
+                    example: 9.1,
+                    description: 'Price change relative to the primary (backups only)',
+                  },
+                },
+              },
+            },
+            rejectedStores: {
+              type: 'array',
+              description: 'Stores the store policy ruled out, per store and reason (present only when any were rejected)',
+              items: {
+                type: 'object',
+                properties: {
+                  storeId: { type: 'string', example: '2045' },
+                  storeName: { type: 'string', example: 'Augusta' },
+                  distance: { type: 'number', example: 41.2 },
+                  reason: { type: 'string', enum: ['TOO_FAR', 'BELOW_MIN_STOCK', 'NOT_ALLOWED', 'DENIED'] },
+                  productIds: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    example: ['12345678'],
+                    description: 'Products whose store results included this store',
+                  },
+                },
+              },
+            },
+          },
+        },
+        StorePolicy: {
+          type: 'object',
+          description: 'Which stores may be picked. Each field overrides the server default (STORE_* env vars)',
+          properties: {
+            maxDistanceMiles: { type: 'number', example: 15, description: 'Reject stores farther than this' },
+            minStockLevel: {
+              type: 'integer',
+              example: 3,
+              description: 'Reject in-stock stores with fewer units than this',
+            },
+            allowStoreIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only these stores may be picked (an empty list allows every store)',
+            },
+            denyStoreIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'These stores are never picked',
+            },
+            preferredStoreIds: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['1771', '2045'],
+              description: 'Tried in order after storeId; the first with the product in stock wins, before the nearest store',
+            },
+          },
+        },
+        SmartSelectBatchRequest: {
+          type: 'object',
+          required: ['requests'],
+          properties: {
+            requests: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 100,
+              items: { $ref: '#/components/schemas/SmartSelectRequest' },
+            },
+          },
+        },
+        SmartSelectBatchResponse: {
+          type: 'object',
+          properties: {
+            results: {
+              type: 'array',
+              description: 'One entry per request, in request order',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer', example: 0 },
+                  shortLink: { type: 'string', example: 'https://incarts-us.web.app/xyz123' },
+                  success: { type: 'boolean', example: true },
+                  data: { $ref: '#/components/schemas/SmartSelectResponse' },
+                  error: {
+                    type: 'object',
+                    description: 'Present when success is false',
+                    properties: {
+                      code: { type: 'string', example: 'VALIDATION_ERROR' },
+                      message: { type: 'string', example: 'zipCode must be in format 12345 or 12345-6789' },
+                      field: { type: 'string', example: 'requests[1].zipCode' },
+                      details: { type: 'object' },
+                    },
+                  },
+                },
+              },
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer', example: 2 },
+                succeeded: { type: 'integer', example: 1 },
+                failed: { type: 'integer', example: 1 },
+              },
+            },
+          },
+        },
+        StorePlan: {
+          type: 'object',
+          description: 'Present when storeSelection is single or fewest',
+          properties: {
+            mode: { type: 'string', enum: ['single', 'fewest'] },
+            stores: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  storeId: { type: 'string', example: '1771' },
+                  storeName: { type: 'string', example: 'Bangor' },
+                  distance: { type: 'number', example: 2.4 },
+                  groupsCovered: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    example: ['12345678', '22222222'],
+                    description: 'primaryIds of the groups filled at this store',
+                  },
+                },
+              },
+            },
+            uncoveredGroups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'primaryIds of groups no chosen store could fill',
+            },
+          },
+        },
+        GroupFulfillment: {
+          type: 'object',
+          properties: {
+            primaryId: { type: 'string', example: '12345678' },
+            requestedQuantity: { type: 'integer', example: 4 },
+            fulfilledQuantity: { type: 'integer', example: 3 },
+            shortfall: { type: 'integer', example: 1, description: 'Units no candidate could cover' },
+            allocations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  productId: { type: 'string', example: '12345678' },
+                  quantity: { type: 'integer', example: 3 },
+                },
+              },
+            },
+          },
+        },
+        CandidateDecision: {
+          type: 'object',
+          properties: {
+            productId: { type: 'string', example: '12345678' },
+            role: { type: 'string', enum: ['primary', 'backup', 'auto'], description: 'auto: discovered by autoBackups' },
+            checked: { type: 'boolean', description: 'False if availability was never looked up (lazy mode)' },
+            usable: { type: 'boolean', description: 'In stock with stock level > 0' },
+            inStock: { type: 'boolean' },
+            stockLevel: { type: 'integer', example: 0 },
+            storeId: { type: 'string', example: '1771' },
+            storeName: { type: 'string', example: 'Bangor' },
+            distance: { type: 'number', example: 2.4 },
+            storeSelectionReason: {
+              type: 'string',
+              enum: [
+                'PREFERRED_STORE',
+                'PREFERRED_STORE_CHAIN',
+                'NEAREST_IN_STOCK',
+                'NEAREST_STORE_NONE_IN_STOCK',
+                'STORE_PLAN',
+              ],
+              description: 'Why this store was picked from the store stock results',
+            },
+            fromCache: { type: 'boolean' },
+            stale: { type: 'boolean' },
+            fulfillmentChannels: {
+              type: 'array',
+              items: { type: 'string', enum: ['in_store', 'pickup', 'delivery', 'shipping'] },
+              description: 'Channels the product qualified for',
+            },
+            dataAgeSeconds: { type: 'integer' },
+            errorCode: {
+              type: 'string',
+              example: 'NO_STOCK_DATA',
+              description: 'Why no usable store data was available: NO_STOCK_DATA, NO_STORES, NO_ELIGIBLE_STORES, '
+                + 'or the failed lookup\'s error code (e.g. CIRCUIT_OPEN, CREDIT_BUDGET_EXHAUSTED)',
+            },
+          },
+        },
+        SelectionExplanation: {
+          type: 'object',
+          description: 'Decision trace (present when the request set explain: true)',
+          properties: {
+            groups: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  primaryId: { type: 'string', example: '12345678' },
+                  outcome: { type: 'string', enum: ['PRIMARY_USED', 'BACKUP_USED', 'SPLIT', 'ALL_UNAVAILABLE'] },
+                  selectedId: { type: 'string', example: '87654321' },
+                  priceExcludedIds: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Backups skipped by maxPriceIncreasePercent',
+                  },
+                  candidates: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/CandidateDecision' },
+                  },
+                },
+              },
+            },
+            redirect: {
+              type: 'object',
+              properties: {
+                rule: {
+                  type: 'string',
+                  enum: [
+                    'NO_PRODUCTS_AVAILABLE',
+                    'SINGLE_PRODUCT_PDP',
+                    'PDP_NOT_ALLOWED',
+                    'MULTI_ITEM_URL',
+                    'MULTIPLE_PRODUCTS',
+                    'DEGRADED_PRIMARY_PDP',
+                  ],
+                },
+                target: { type: 'string', enum: ['pdp', 'search', 'template', 'longLink', 'custom'] },
+                reason: { type: 'string', example: 'No primary or backup product was in stock' },
+              },
+            },
+          },
+        },
+        AvailabilityCheckSummary: {
+          type: 'object',
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['eager', 'lazy'],
+              example: 'lazy',
+              description: 'Availability check mode that was used',
+            },
+            productsChecked: {
+              type: 'integer',
+              example: 3,
+              description: 'Number of distinct products whose stock was checked',
+            },
+            checkRounds: {
+              type: 'integer',
+              example: 2,
+              description: 'Number of batched availability rounds',
+            },
+            creditsSaved: {
+              type: 'integer',
+              example: 7,
+              description: 'RedCircle stock calls avoided compared with eager mode (skipped products that were not cached)',
+            },
+          },
+        },
+        CacheWarmItemResult: {
+          type: 'object',
+          properties: {
+            tcin: { type: 'string', example: '12345678' },
+            zipCode: { type: 'string', example: '04457' },
+            shortLinks: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Short links that reference this product',
+            },
+            status: {
+              type: 'string',
+              enum: ['warmed', 'fresh', 'failed', 'skipped_budget'],
+              example: 'warmed',
+              description: 'warmed: refreshed from RedCircle; fresh: cache entry still fresh; failed: upstream error; skipped_budget: hourly credit budget used up',
+            },
+            creditsUsed: {
+              type: 'integer',
+              example: 1,
+              description: 'Credits charged to the hourly budget (0 when the call was refused before it was sent, e.g. open circuit)',
+            },
+            error: { type: 'string', description: 'Error message when status is failed' },
+          },
+        },
+        CacheWarmResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            data: {
+              type: 'object',
+              properties: {
+                trigger: { type: 'string', enum: ['startup', 'schedule', 'manual'], example: 'manual' },
+                startedAt: { type: 'string', format: 'date-time' },
+                finishedAt: { type: 'string', format: 'date-time' },
+                warmed: { type: 'integer', example: 12 },
+                fresh: { type: 'integer', example: 30 },
+                failed: { type: 'integer', example: 1 },
+                skipped: { type: 'integer', example: 0 },
+                creditsUsed: { type: 'integer', example: 13 },
+                creditBudgetPerHour: { type: 'integer', example: 100 },
+                creditBudgetRemaining: { type: 'integer', example: 61 },
+                items: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/CacheWarmItemResult' },
+                },
+              },
+            },
+          },
+        },
+        CreditBucket: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer', example: 420, description: 'Credits used' },
+            requests: { type: 'integer', example: 415, description: 'RedCircle requests made' },
+            byEndpoint: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+              example: { store_stock: 400, product: 15, search: 5 },
+            },
+            byClient: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+              example: { 'link-preview': 300, background: 120 },
+            },
+            byShortLink: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+              example: { 'https://incarts-us.web.app/xyz123': 42 },
+            },
+          },
+        },
+        CreditLedgerResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            data: {
+              type: 'object',
+              properties: {
+                startedAt: { type: 'string', format: 'date-time' },
+                dailyBudget: {
+                  type: 'integer',
+                  nullable: true,
+                  example: 5000,
+                  description: 'REDCIRCLE_INSTANCE_DAILY_CREDIT_BUDGET (per instance; null = unlimited)',
+                },
+                dailyBudgetRemaining: { type: 'integer', nullable: true, example: 4580 },
+                cacheOnlyMode: { type: 'boolean', example: false },
+                creditsRemaining: {
+                  type: 'integer',
+                  nullable: true,
+                  example: 120000,
+                  description: 'credits_remaining from the latest RedCircle response',
+                },
+                creditsRemainingWarnThreshold: { type: 'integer', nullable: true, example: 1000 },
+                today: {
+                  allOf: [
+                    { $ref: '#/components/schemas/CreditBucket' },
+                    { type: 'object', properties: { day: { type: 'string', example: '2025-10-31' } } },
+                  ],
+                },
+                sinceStart: { $ref: '#/components/schemas/CreditBucket' },
+              },
+            },
+          },
+        },
+        AnalyticsSummaryResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            data: {
+              type: 'object',
+              properties: {
+                startedAt: { type: 'string', format: 'date-time' },
+                eventsEmitted: {
+                  type: 'object',
+                  additionalProperties: { type: 'integer' },
+                  example: { product_substitution: 120, all_products_unavailable: 4, api_call: 310 },
+                },
+                sinks: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', enum: ['jsonl', 'webhook', 'batch'] },
+                      queued: { type: 'integer', example: 12 },
+                      delivered: { type: 'integer', example: 400 },
+                      failed: { type: 'integer', example: 0, description: 'Events in batches the sink rejected' },
+                      dropped: { type: 'integer', example: 0, description: 'Events discarded because the queue was full' },
+                      lastError: { type: 'string' },
+                      lastFlushAt: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
+                substitutions: {
+                  type: 'object',
+                  properties: {
+                    trackedPrimaries: { type: 'integer', example: 37 },
+                    untracked: {
+                      type: 'integer',
+                      example: 0,
+                      description: 'Substitutions not broken down because the tracked primary limit was reached',
+                    },
+                    primaries: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          primaryId: { type: 'string', example: '12345678' },
+                          total: { type: 'integer', example: 18 },
+                          byZipCode: {
+                            type: 'object',
+                            additionalProperties: { type: 'integer' },
+                            example: { '04457': 11, '04401': 7 },
+                          },
+                          byReplacement: {
+                            type: 'object',
+                            additionalProperties: { type: 'integer' },
+                            example: { 87654321: 18 },
+                          },
+                          byReason: {
+                            type: 'object',
+                            additionalProperties: { type: 'integer' },
+                            example: { OUT_OF_STOCK: 18 },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
         ApiInfo: {
@@ -544,7 +1234,22 @@ Requires RedCircle API key configured via environment variable.
           },
         },
       },
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'Client API key (rejections: 401 UNAUTHORIZED, 403 FORBIDDEN, 429 RATE_LIMIT_EXCEEDED / QUOTA_EXCEEDED)',
+        },
+        AdminKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Admin-Key',
+          description: 'Admin key for /api/admin routes (ADMIN_API_KEY; 503 ADMIN_DISABLED when not configured)',
+        },
+      },
     },
+    security: [{ ApiKeyAuth: [] }],
   },
   apis: ['./src/index.ts', './src/controllers/*.ts'],
 };
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Admin controllers
+ * @description HTTP request handlers for operational endpoints (cache warming, credit ledger,
+ * analytics, Prometheus metrics)
+ * @module controllers/admin
+ * @related services/stock/cache-warmer.ts, services/target/credit-ledger.ts,
+ * services/analytics/event-bus.ts, services/metrics/prometheus.ts
+ */
+
+import { Request, Response } from 'express';
+import { ApiError } from '../types';
+import { runCacheWarming } from '../services/stock/cache-warmer';
+import { getCreditLedger } from '../services/target/credit-ledger';
+import { getAnalyticsSummary } from '../services/analytics/event-bus';
+import { getMetrics } from '../services/metrics/prometheus';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Admin Controller');
+
+// ============================================================================
+// Cache Warming
+// ============================================================================
+
+/**
+ * POST /api/admin/cache/warm
+ * Trigger a cache warming run and return per-item results
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ */
+export async function triggerCacheWarm(_req: Request, res: Response): Promise<void> {
+  try {
+    const report = await runCacheWarming('manual');
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'CACHE_WARMING_NOT_CONFIGURED') {
+      res.status(503).json({
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
+    }
+
+    logger.error('Cache warming failed', { error });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: process.env.NODE_ENV === 'development'
+          ? (error as Error).message
+          : 'Cache warming failed',
+      },
+    });
+  }
+}
+
+// ============================================================================
+// Credit Ledger
+// ============================================================================
+
+/**
+ * GET /api/admin/credits
+ * Return RedCircle credit totals per endpoint, client and short link
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ */
+export async function getCreditUsage(_req: Request, res: Response): Promise<void> {
+  res.status(200).json({
+    success: true,
+    data: getCreditLedger(),
+  });
+}
+
+// ============================================================================
+// Analytics
+// ============================================================================
+
+/**
+ * GET /api/admin/analytics
+ * Return event counters, sink delivery stats and substitutions per primary product
+ *
+ * @param req - Express request (query: limit)
+ * @param res - Express response
+ */
+export async function getAnalytics(req: Request, res: Response): Promise<void> {
+  const limit = parseInt((req.query.limit as string) || '50', 10);
+
+  res.status(200).json({
+    success: true,
+    data: getAnalyticsSummary(Number.isNaN(limit) || limit < 1 ? 50 : limit),
+  });
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * GET /metrics
+ * Prometheus scrape endpoint (text exposition format)
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ */
+export async function getPrometheusMetrics(_req: Request, res: Response): Promise<void> {
+  try {
+    const { contentType, body } = await getMetrics();
+    res.setHeader('Content-Type', contentType);
+    res.status(200).send(body);
+  } catch (error) {
+    logger.error('Failed to collect metrics', { error });
+    res.status(500).json({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to collect metrics',
+      },
+    });
+  }
+}
@@ -13,6 +13,10 @@ import {
   isValidTcin,
 } from '../services/target/api';
 import { ValidationError } from '../types';
+import { createLogger } from '../utils/logger';
+import { isTemporarilyUnavailable, sendTemporarilyUnavailable } from '../utils/http-errors';
+
+const logger = createLogger('Product Controller');
 
 // ============================================================================
 // Product Lookup by TCIN
@@ -43,9 +47,7 @@ export async function getProductByTcin(
       );
     }
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Product Controller] Getting product details for TCIN: ${tcin}`);
-    }
+    logger.debug(`Getting product details for TCIN: ${tcin}`);
 
     // Fetch product from RedCircle API
     const productData = await getFullProductByTcin(tcin);
@@ -70,10 +72,6 @@ export async function getProductByTcin(
       location_info: productData.location_info,
     });
   } catch (error) {
-    if (process.env.NODE_ENV === 'development') {
-      console.error('[Product Controller] Error:', error);
-    }
-
     if (error instanceof ValidationError) {
       res.status(400).json({
         error: {
@@ -86,6 +84,13 @@ export async function getProductByTcin(
       return;
     }
 
+    if (isTemporarilyUnavailable(error)) {
+      logger.warn(`Request rejected: ${error.code}`, { error });
+      sendTemporarilyUnavailable(res, error);
+      return;
+    }
+
+    logger.error('Request failed', { error });
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -126,9 +131,7 @@ export async function getProductByUpc(
       );
     }
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Product Controller] Getting product by UPC/GTIN: ${gtin}`);
-    }
+    logger.debug(`Getting product by UPC/GTIN: ${gtin}`);
 
     // Fetch product from RedCircle API
     const productData = await getProductByGtin(gtin);
@@ -153,10 +156,6 @@ export async function getProductByUpc(
       location_info: productData.location_info,
     });
   } catch (error) {
-    if (process.env.NODE_ENV === 'development') {
-      console.error('[Product Controller] Error:', error);
-    }
-
     if (error instanceof ValidationError) {
       res.status(400).json({
         error: {
@@ -169,6 +168,13 @@ export async function getProductByUpc(
       return;
     }
 
+    if (isTemporarilyUnavailable(error)) {
+      logger.warn(`Request rejected: ${error.code}`, { error });
+      sendTemporarilyUnavailable(res, error);
+      return;
+    }
+
+    logger.error('Request failed', { error });
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -223,9 +229,7 @@ export async function searchProductsHandler(
       );
     }
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Product Controller] Searching for "${searchTerm}" (page ${page})`);
-    }
+    logger.debug(`Searching for "${searchTerm}" (page ${page})`);
 
     // Search products via RedCircle API
     const searchResults = await searchProducts(searchTerm.trim(), {
@@ -264,10 +268,6 @@ export async function searchProductsHandler(
       request_metadata: searchResults.request_metadata,
     });
   } catch (error) {
-    if (process.env.NODE_ENV === 'development') {
-      console.error('[Product Controller] Error:', error);
-    }
-
     if (error instanceof ValidationError) {
       res.status(400).json({
         error: {
@@ -280,6 +280,13 @@ export async function searchProductsHandler(
       return;
     }
 
+    if (isTemporarilyUnavailable(error)) {
+      logger.warn(`Request rejected: ${error.code}`, { error });
+      sendTemporarilyUnavailable(res, error);
+      return;
+    }
+
+    logger.error('Request failed', { error });
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -1,6 +1,6 @@
 /**
  * @fileoverview Stock controller for smart product selection
- * @description HTTP request handler for the /api/stock/smart-select endpoint
+ * @description HTTP request handlers for the /api/stock/smart-select endpoints (single and batch)
  * @module controllers/stock
  * @related services/stock/product-selector.ts, types/index.ts
  */
@@ -9,10 +9,33 @@ import { Request, Response } from 'express';
 import {
   SmartSelectionRequest,
   SmartSelectionResponse,
+  SmartSelectionBatchItemResult,
+  SmartSelectionBatchResponse,
+  ErrorBody,
   ValidationError,
   ApiError,
 } from '../types';
-import { selectAvailableProducts, logApiPerformance } from '../services/stock/product-selector';
+import {
+  selectAvailableProducts,
+  selectAvailableProductsBatch,
+  logApiPerformance,
+} from '../services/stock/product-selector';
+import { getSchedulerStats } from '../services/target/scheduler';
+import { getCoalescingStats } from '../services/target/api';
+import { getCircuitStatus } from '../services/target/circuit-breaker';
+import { checkReadiness } from '../services/health/readiness';
+import { stockCache } from '../utils/cache';
+import { getRequestContext } from '../utils/request-context';
+import { isTemporarilyUnavailable, setRetryAfter } from '../utils/http-errors';
+import { createLogger } from '../utils/logger';
+import { withSpan } from '../utils/tracing';
+
+const logger = createLogger('Controller');
+
+/**
+ * Maximum number of requests accepted by the batch endpoint
+ */
+const BATCH_MAX_SIZE = parseInt(process.env.SMART_SELECT_BATCH_MAX_SIZE || '100', 10);
 
 // ============================================================================
 // Controller Entry Point
@@ -58,20 +81,33 @@ export async function smartProductSelect(req: Request, res: Response): Promise<v
     const request: SmartSelectionRequest = req.body;
     const { zipCode, storeId } = request;
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log('[Controller] Smart select request received:', {
-        shortLink: request.shortLink,
-        backupGroups: request.backups.length,
-        zipCode,
-        storeId,
-      });
+    // Attribute RedCircle credits to this short link
+    const context = getRequestContext();
+    if (context) {
+      context.shortLink = request.shortLink;
     }
 
-    // Step 3: Call service layer
-    const response: SmartSelectionResponse = await selectAvailableProducts(
-      request,
+    logger.debug('Smart select request received', {
+      shortLink: request.shortLink,
+      backupGroups: request.backups.length,
       zipCode,
       storeId,
+    });
+
+    // Step 3: Call service layer
+    const response: SmartSelectionResponse = await withSpan(
+      'smartProductSelect',
+      {
+        'app.short_link': request.shortLink,
+        'app.zip_code': zipCode,
+        'app.store_id': storeId,
+        'app.backup_groups': request.backups.length,
+      },
+      () => selectAvailableProducts(request, zipCode, storeId),
+      (result) => ({
+        'app.substitutions': result.backupProducts.length,
+        'app.credits_used': getRequestContext()?.creditsUsed,
+      }),
     );
 
     // Step 4: Log performance metrics
@@ -96,6 +132,115 @@ export async function smartProductSelect(req: Request, res: Response): Promise<v
   }
 }
 
+/**
+ * Batch smart product selection endpoint handler
+ * POST /api/stock/smart-select/batch
+ *
+ * Invalid items and items whose availability check fails get a per-item error;
+ * the rest of the batch is still processed.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ *
+ * @example
+ * POST /api/stock/smart-select/batch
+ * {
+ *   "requests": [
+ *     { "shortLink": "...", "longLink": "...", "backups": [...], "zipCode": "04457" },
+ *     { "shortLink": "...", "longLink": "...", "backups": [...], "zipCode": "04457" }
+ *   ]
+ * }
+ */
+export async function smartProductSelectBatch(req: Request, res: Response): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    // Step 1: Validate batch envelope
+    const items = (req.body as Record<string, unknown> | undefined)?.requests;
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError('requests is required and must be a non-empty array', 'requests');
+    }
+
+    if (items.length > BATCH_MAX_SIZE) {
+      throw new ValidationError(
+        `requests cannot contain more than ${BATCH_MAX_SIZE} items`,
+        'requests',
+        { count: items.length },
+      );
+    }
+
+    // Step 2: Validate each item; invalid items are reported, not fatal
+    const results: SmartSelectionBatchItemResult[] = items.map((item, index) => {
+      const validationError = validateRequest(item);
+      return {
+        index,
+        shortLink: typeof item?.shortLink === 'string' ? item.shortLink : undefined,
+        success: !validationError,
+        error: validationError
+          ? { ...toErrorBody(validationError).body, field: toBatchField(index, validationError.field) }
+          : undefined,
+      };
+    });
+
+    const validResults = results.filter((result) => result.success);
+    const validRequests = validResults.map((result) => items[result.index] as SmartSelectionRequest);
+
+    logger.debug('Smart select batch received', {
+      total: items.length,
+      valid: validRequests.length,
+    });
+
+    // Step 3: Call service layer (one availability check per location)
+    const settled = await withSpan(
+      'smartProductSelectBatch',
+      { 'app.batch_size': validRequests.length },
+      () => selectAvailableProductsBatch(validRequests),
+      (outcomes) => ({
+        'app.failed_count': outcomes.filter((outcome) => outcome.status === 'rejected').length,
+        'app.credits_used': getRequestContext()?.creditsUsed,
+      }),
+    );
+
+    settled.forEach((outcome, i) => {
+      const result = validResults[i];
+      if (outcome.status === 'fulfilled') {
+        result.data = outcome.value;
+      } else {
+        result.success = false;
+        result.error = toErrorBody(outcome.reason).body;
+      }
+    });
+
+    // Step 4: Log performance metrics
+    const succeeded = results.filter((result) => result.success).length;
+
+    logApiPerformance({
+      endpoint: '/api/stock/smart-select/batch',
+      durationMs: Date.now() - startTime,
+      cacheHit: false,
+      productsChecked: validRequests.reduce(
+        (sum, request) => sum + request.backups.reduce((n, group) => n + 1 + group.backupIds.length, 0),
+        0,
+      ),
+      substitutions: results.reduce((sum, result) => sum + (result.data?.backupProducts.length || 0), 0),
+    });
+
+    // Step 5: Return per-item results
+    const response: SmartSelectionBatchResponse = {
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    handleControllerError(error, res);
+  }
+}
+
 // ============================================================================
 // Validation
 // ============================================================================
@@ -149,6 +294,10 @@ function validateRequest(body: unknown): ValidationError | null {
   for (let i = 0; i < data.backups.length; i++) {
     const group = data.backups[i];
 
+    if (!group || typeof group !== 'object') {
+      return new ValidationError(`backups[${i}] must be an object`, `backups[${i}]`);
+    }
+
     if (!group.primaryId || typeof group.primaryId !== 'string') {
       return new ValidationError(
         `backups[${i}].primaryId is required and must be a string`,
@@ -172,6 +321,24 @@ function validateRequest(body: unknown): ValidationError | null {
       );
     }
 
+    if (
+      group.quantity !== undefined
+      && (!Number.isInteger(group.quantity) || group.quantity < 1)
+    ) {
+      return new ValidationError(
+        `backups[${i}].quantity must be a positive integer`,
+        `backups[${i}].quantity`,
+        { value: group.quantity },
+      );
+    }
+
+    if (group.allowSplit !== undefined && typeof group.allowSplit !== 'boolean') {
+      return new ValidationError(
+        `backups[${i}].allowSplit must be a boolean`,
+        `backups[${i}].allowSplit`,
+      );
+    }
+
     // Validate backup TCINs
     for (let j = 0; j < group.backupIds.length; j++) {
       const backupId = group.backupIds[j];
@@ -206,59 +373,196 @@ function validateRequest(body: unknown): ValidationError | null {
     return new ValidationError('allowPdp must be a boolean', 'allowPdp');
   }
 
-  // cartUrlOptions validation (accept but ignore for Target)
+  if (
+    data.availabilityMode !== undefined
+    && data.availabilityMode !== 'eager'
+    && data.availabilityMode !== 'lazy'
+  ) {
+    return new ValidationError('availabilityMode must be "eager" or "lazy"', 'availabilityMode');
+  }
+
+  if (
+    data.storeSelection !== undefined
+    && !['nearest', 'single', 'fewest'].includes(data.storeSelection as string)
+  ) {
+    return new ValidationError(
+      'storeSelection must be "nearest", "single" or "fewest"',
+      'storeSelection',
+    );
+  }
+
+  if (
+    data.fulfillment !== undefined
+    && !['in_store', 'pickup', 'delivery', 'shipping'].includes(data.fulfillment as string)
+  ) {
+    return new ValidationError(
+      'fulfillment must be "in_store", "pickup", "delivery" or "shipping"',
+      'fulfillment',
+    );
+  }
+
+  if (data.explain !== undefined && typeof data.explain !== 'boolean') {
+    return new ValidationError('explain must be a boolean', 'explain');
+  }
+
+  if (
+    data.backupRanking !== undefined
+    && !['order', 'price', 'rating'].includes(data.backupRanking as string)
+  ) {
+    return new ValidationError('backupRanking must be "order", "price" or "rating"', 'backupRanking');
+  }
+
+  if (
+    data.maxPriceIncreasePercent !== undefined
+    && (typeof data.maxPriceIncreasePercent !== 'number'
+      || !Number.isFinite(data.maxPriceIncreasePercent)
+      || data.maxPriceIncreasePercent < 0)
+  ) {
+    return new ValidationError(
+      'maxPriceIncreasePercent must be a non-negative number',
+      'maxPriceIncreasePercent',
+      { value: data.maxPriceIncreasePercent },
+    );
+  }
+
+  if (data.autoBackups !== undefined && typeof data.autoBackups !== 'boolean') {
+    return new ValidationError('autoBackups must be a boolean', 'autoBackups');
+  }
+
+  if (data.storePolicy !== undefined) {
+    const storePolicyError = validateStorePolicy(data.storePolicy);
+    if (storePolicyError) {
+      return storePolicyError;
+    }
+  }
+
+  // cartUrlOptions validation (mode is accepted; multiItemStrategy picks the Target multi-item URL)
   if (data.cartUrlOptions !== undefined && typeof data.cartUrlOptions !== 'object') {
     return new ValidationError('cartUrlOptions must be an object', 'cartUrlOptions');
   }
 
+  const multiItemStrategy = (data.cartUrlOptions as Record<string, unknown> | undefined)?.multiItemStrategy;
+  if (multiItemStrategy !== undefined && !['search', 'template', 'none'].includes(multiItemStrategy as string)) {
+    return new ValidationError(
+      'cartUrlOptions.multiItemStrategy must be "search", "template" or "none"',
+      'cartUrlOptions.multiItemStrategy',
+    );
+  }
+
   return null;
 }
 
+/**
+ * Validate a request-level store policy
+ *
+ * @param policy - storePolicy from the request body
+ * @returns ValidationError or null if valid
+ */
+function validateStorePolicy(policy: unknown): ValidationError | null {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return new ValidationError('storePolicy must be an object', 'storePolicy');
+  }
+
+  const data = policy as Record<string, unknown>;
+
+  const numberFields = ['maxDistanceMiles', 'minStockLevel'];
+  for (const field of numberFields) {
+    const value = data[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return new ValidationError(
+        `storePolicy.${field} must be a non-negative number`,
+        `storePolicy.${field}`,
+        { value },
+      );
+    }
+  }
+
+  const listFields = ['allowStoreIds', 'denyStoreIds', 'preferredStoreIds'];
+  for (const field of listFields) {
+    const value = data[field];
+    if (value !== undefined && (!Array.isArray(value) || !value.every((id) => typeof id === 'string'))) {
+      return new ValidationError(
+        `storePolicy.${field} must be an array of store ID strings`,
+        `storePolicy.${field}`,
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prefix a validation field with the batch item position
+ *
+ * @param index - Item index in the batch
+ * @param field - Field reported by validateRequest
+ * @returns Field path within the batch body (e.g. requests[2].zipCode)
+ */
+function toBatchField(index: number, field?: string): string {
+  return field && field !== 'body' ? `requests[${index}].${field}` : `requests[${index}]`;
+}
+
 // ============================================================================
 // Error Handling
 // ============================================================================
 
 /**
- * Handle controller errors and return appropriate HTTP response
+ * Handle controller errors and return appropriate HTTP response (with Retry-After on a 503 when known)
  *
  * @param error - Error object
  * @param res - Express response
  */
 function handleControllerError(error: unknown, res: Response): void {
-  if (process.env.NODE_ENV === 'development') {
-    console.error('[Controller] Error:', error);
+  const { statusCode, body } = toErrorBody(error);
+  if (statusCode >= 500 && !isTemporarilyUnavailable(error)) {
+    logger.error('Request failed', { error });
+  } else {
+    logger.warn(`Request rejected: ${body.code}`, { error });
   }
 
+  if (isTemporarilyUnavailable(error)) {
+    setRetryAfter(res, error);
+  }
+  res.status(statusCode).json({ error: body });
+}
+
+/**
+ * Convert an error into an HTTP status code and structured error body
+ *
+ * @param error - Error object
+ * @returns Status code and error body
+ */
+function toErrorBody(error: unknown): { statusCode: number; body: ErrorBody } {
   // ValidationError
   if (error instanceof ValidationError) {
-    res.status(400).json({
-      error: {
+    return {
+      statusCode: 400,
+      body: {
         code: 'VALIDATION_ERROR',
         message: error.message,
         field: error.field,
         details: error.details,
       },
-    });
-    return;
+    };
   }
 
   // ApiError
   if (error instanceof ApiError) {
-    const statusCode = getHttpStatusFromApiError(error);
-    res.status(statusCode).json({
-      error: {
+    return {
+      statusCode: getHttpStatusFromApiError(error),
+      body: {
         code: error.code,
         message: error.message,
         details: error.details,
       },
-    });
-    return;
+    };
   }
 
   // Generic error
   const err = error as Error;
-  res.status(500).json({
-    error: {
+  return {
+    statusCode: 500,
+    body: {
       code: 'INTERNAL_SERVER_ERROR',
       message: process.env.NODE_ENV === 'development'
         ? err.message
@@ -267,7 +571,7 @@ function handleControllerError(error: unknown, res: Response): void {
         ? { stack: err.stack }
         : undefined,
     },
-  });
+  };
 }
 
 /**
@@ -279,6 +583,11 @@ function handleControllerError(error: unknown, res: Response): void {
 function getHttpStatusFromApiError(error: ApiError): number {
   const code = String(error.code);
 
+  // Budget used up or circuit open: temporary, not a server bug
+  if (isTemporarilyUnavailable(error)) {
+    return 503;
+  }
+
   if (code === 'PRODUCT_NOT_FOUND' || code === '404') {
     return 404;
   }
@@ -317,6 +626,10 @@ export async function healthCheck(_req: Request, res: Response): Promise<void> {
       uptime: process.uptime(),
       environment: process.env.NODE_ENV || 'development',
       apiKeyConfigured: !!process.env.TARGET_API_KEY,
+      cacheBackend: stockCache.backend,
+      scheduler: getSchedulerStats(),
+      coalescing: getCoalescingStats(),
+      circuit: getCircuitStatus(),
     };
 
     res.status(200).json(health);
@@ -328,3 +641,41 @@ export async function healthCheck(_req: Request, res: Response): Promise<void> {
     });
   }
 }
+
+/**
+ * Liveness probe handler
+ * GET /api/health/live
+ * Only reports that the process is serving requests (no dependency checks)
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ */
+export async function livenessCheck(_req: Request, res: Response): Promise<void> {
+  res.status(200).json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+}
+
+/**
+ * Readiness probe handler
+ * GET /api/health/ready
+ * Returns 503 when the instance shouldn't receive traffic (cache backend or RedCircle down)
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ */
+export async function readinessCheck(_req: Request, res: Response): Promise<void> {
+  try {
+    const report = await checkReadiness();
+    res.status(report.status === 'not_ready' ? 503 : 200).json(report);
+  } catch (error) {
+    logger.error('Readiness check failed', { error });
+    res.status(503).json({
+      status: 'not_ready',
+      timestamp: new Date().toISOString(),
+      error: (error as Error).message,
+    });
+  }
+}
@@ -21,7 +21,13 @@ import cors from 'cors';
 // eslint-disable-next-line import/first
 import swaggerUi from 'swagger-ui-express';
 // eslint-disable-next-line import/first
-import { smartProductSelect, healthCheck } from './controllers/stock';
+import {
+  smartProductSelect,
+  smartProductSelectBatch,
+  healthCheck,
+  livenessCheck,
+  readinessCheck,
+} from './controllers/stock';
 // eslint-disable-next-line import/first
 import {
   getProductByTcin,
@@ -29,7 +35,31 @@ import {
   searchProductsHandler,
 } from './controllers/products';
 // eslint-disable-next-line import/first
+import {
+  triggerCacheWarm,
+  getCreditUsage,
+  getAnalytics,
+  getPrometheusMetrics,
+} from './controllers/admin';
+// eslint-disable-next-line import/first
+import { startCacheWarming } from './services/stock/cache-warmer';
+// eslint-disable-next-line import/first
+import { startAnalytics } from './services/analytics/event-bus';
+// eslint-disable-next-line import/first
 import { swaggerSpec } from './config/swagger';
+// eslint-disable-next-line import/first
+import { requestContext } from './middleware/request-context';
+// eslint-disable-next-line import/first
+import {
+  authenticateApiKey,
+  clientRateLimiter,
+  enforceCreditQuota,
+  requireAdminKey,
+} from './middleware/auth';
+// eslint-disable-next-line import/first
+import { createLogger } from './utils/logger';
+// eslint-disable-next-line import/first
+import { startTracing } from './utils/tracing';
 
 // ============================================================================
 // Server Configuration
@@ -37,6 +67,7 @@ import { swaggerSpec } from './config/swagger';
 
 const PORT = process.env.PORT || 3000;
 const app: Application = express();
+const logger = createLogger('Server');
 
 // ============================================================================
 // Middleware
@@ -53,7 +84,8 @@ app.use(
         ? process.env.ALLOWED_ORIGINS?.split(',') || []
         : '*',
     methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+    exposedHeaders: ['X-Request-Id'],
   }),
 );
 
@@ -68,14 +100,10 @@ app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 /**
- * Request logging middleware (development only)
+ * Per-request context (request ID, credit attribution, client identity)
+ * and request logging
  */
-if (process.env.NODE_ENV === 'development') {
-  app.use((req: Request, _res: Response, next: NextFunction) => {
-    console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-    next();
-  });
-}
+app.use(requestContext);
 
 // ============================================================================
 // API Documentation
@@ -114,6 +142,7 @@ app.get('/api-docs.json', (_req: Request, res: Response) => {
  *     summary: API information
  *     description: Returns basic API metadata and available endpoints
  *     tags: [Info]
+ *     security: []
  *     responses:
  *       200:
  *         description: API information retrieved successfully
@@ -129,10 +158,17 @@ app.get('/', (_req: Request, res: Response) => {
     description: 'Smart product selection with automatic backup substitution',
     endpoints: {
       health: 'GET /api/health',
+      liveness: 'GET /api/health/live',
+      readiness: 'GET /api/health/ready',
+      metrics: 'GET /metrics',
       smartSelect: 'POST /api/stock/smart-select',
+      smartSelectBatch: 'POST /api/stock/smart-select/batch',
       productByTcin: 'GET /api/products/:tcin',
       productByUpc: 'GET /api/products/upc/:gtin',
       productSearch: 'GET /api/products/search?q={keyword}',
+      cacheWarm: 'POST /api/admin/cache/warm',
+      credits: 'GET /api/admin/credits',
+      analytics: 'GET /api/admin/analytics',
     },
     documentation: {
       interactive: 'http://localhost:3000/api-docs',
@@ -148,6 +184,7 @@ app.get('/', (_req: Request, res: Response) => {
  *     summary: Health check
  *     description: Returns server health status, uptime, and configuration info
  *     tags: [Health]
+ *     security: []
  *     responses:
  *       200:
  *         description: Server is healthy and running
@@ -164,6 +201,212 @@ app.get('/', (_req: Request, res: Response) => {
  */
 app.get('/api/health', healthCheck);
 
+/**
+ * @swagger
+ * /api/health/live:
+ *   get:
+ *     summary: Liveness probe
+ *     description: Returns 200 while the process is serving requests. No dependencies are checked.
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Process is alive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LivenessResponse'
+ */
+app.get('/api/health/live', livenessCheck);
+
+/**
+ * @swagger
+ * /api/health/ready:
+ *   get:
+ *     summary: Readiness probe
+ *     description: |
+ *       Reports whether this instance should receive traffic:
+ *       - **cache**: the cache backend answers a ping (Redis round trip)
+ *       - **upstream**: RedCircle is reachable. Based on recent real calls; only when there were
+ *         none does a probe run (1 credit), at most every `HEALTH_UPSTREAM_PROBE_INTERVAL_SECONDS`
+ *         while healthy and every `HEALTH_UPSTREAM_RETRY_SECONDS` while failing
+ *       - **circuit**: the RedCircle circuit breaker. An open circuit makes the instance `degraded`
+ *         (cache or fallback answers), not unready, even while upstream calls fail
+ *       - **credits**: daily budget and account balance. An exhausted budget makes the instance
+ *         `degraded` (cache-only answers), not unready
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Ready or degraded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessResponse'
+ *       503:
+ *         description: Not ready (cache backend or RedCircle failing)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReadinessResponse'
+ */
+app.get('/api/health/ready', readinessCheck);
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: |
+ *       Metrics in the Prometheus text exposition format:
+ *       - `redcircle_request_duration_seconds` - RedCircle call latency histogram by `type` (store_stock, product, search)
+ *       - `redcircle_request_errors_total` - failed RedCircle calls by `type` and ApiError `code`
+ *       - `redcircle_circuit_state` - circuit breaker state (0 closed, 1 half-open, 2 open)
+ *       - `cache_keys`, `cache_hits`, `cache_misses`, `cache_hit_ratio` - per `cache` (stock, product)
+ *       - `smart_select_backups_used_total` - backups used, by substitution `reason`
+ *       - `smart_select_all_products_unavailable_total` - selections that returned the fallback URL
+ *       - `smart_select_duration_seconds` - smart selection duration by `endpoint`
+ *       - Node.js process metrics (`process_*`, `nodejs_*`)
+ *     tags: [Health]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Metrics
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               # HELP redcircle_request_errors_total Failed RedCircle API calls by request type and ApiError code (each failed attempt)
+ *               # TYPE redcircle_request_errors_total counter
+ *               redcircle_request_errors_total{type="store_stock",code="RATE_LIMIT_EXCEEDED"} 3
+ */
+app.get('/metrics', getPrometheusMetrics);
+
+/**
+ * Admin routes require the admin key (ADMIN_API_KEY, X-Admin-Key header). They are registered
+ * before client authentication, so client API keys (even allowedRoutes "*") can't reach them
+ */
+app.use('/api/admin', requireAdminKey);
+
+/**
+ * @swagger
+ * /api/admin/cache/warm:
+ *   post:
+ *     summary: Trigger a stock cache warming run
+ *     description: |
+ *       Warms the stock cache for every tcin+zipCode pair of the short links listed in
+ *       CACHE_WARM_CONFIG_FILE. Fresh entries are skipped, and items beyond the hourly
+ *       credit budget (CACHE_WARM_CREDIT_BUDGET_PER_HOUR) are reported as skipped_budget.
+ *       If a run is already in progress, its report is returned.
+ *     tags: [Admin]
+ *     security:
+ *       - AdminKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Warm run completed with per-item results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CacheWarmResponse'
+ *       401:
+ *         description: Missing or invalid admin key (X-Admin-Key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: Cache warming or the admin key (ADMIN_API_KEY) is not configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.post('/api/admin/cache/warm', triggerCacheWarm);
+
+/**
+ * @swagger
+ * /api/admin/credits:
+ *   get:
+ *     summary: RedCircle credit ledger
+ *     description: |
+ *       Running RedCircle credit totals of this instance per endpoint, API client and short
+ *       link, for today (UTC) and since instance start. Once REDCIRCLE_INSTANCE_DAILY_CREDIT_BUDGET
+ *       is used up the instance switches to cache-only mode and smart-select falls back to
+ *       longLink for products without cached data. Totals and the budget are per instance.
+ *     tags: [Admin]
+ *     security:
+ *       - AdminKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit ledger snapshot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CreditLedgerResponse'
+ *       401:
+ *         description: Missing or invalid admin key (X-Admin-Key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY is not set)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.get('/api/admin/credits', getCreditUsage);
+
+/**
+ * @swagger
+ * /api/admin/analytics:
+ *   get:
+ *     summary: Substitution analytics
+ *     description: |
+ *       Analytics events emitted since instance start, delivery stats per sink
+ *       (ANALYTICS_SINKS: jsonl, webhook, batch) and how often each primary product was
+ *       substituted, by ZIP code, replacement and reason. Events that don't fit a sink's
+ *       queue (ANALYTICS_MAX_QUEUE_SIZE) are dropped and counted.
+ *     tags: [Admin]
+ *     security:
+ *       - AdminKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum primary products to list (most substituted first)
+ *     responses:
+ *       200:
+ *         description: Analytics snapshot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AnalyticsSummaryResponse'
+ *       401:
+ *         description: Missing or invalid admin key (X-Admin-Key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY is not set)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.get('/api/admin/analytics', getAnalytics);
+
+/**
+ * API key authentication for every /api route below (health check stays public)
+ * Order: authenticate key + route access → per-client rate limit → daily credit quota
+ */
+app.use('/api', authenticateApiKey, clientRateLimiter, enforceCreditQuota);
+
 /**
  * @swagger
  * /api/stock/smart-select:
@@ -277,6 +520,43 @@ app.get('/api/health', healthCheck);
  */
 app.post('/api/stock/smart-select', smartProductSelect);
 
+/**
+ * @swagger
+ * /api/stock/smart-select/batch:
+ *   post:
+ *     summary: Smart product selection for many short links
+ *     description: |
+ *       Runs smart selection for up to SMART_SELECT_BATCH_MAX_SIZE (default 100) requests.
+ *
+ *       Requests are grouped by zipCode + storeId and availability is checked once for the
+ *       union of all TCINs in each group, so products shared across short links are only
+ *       looked up once. `availabilityMode` is ignored for batch items.
+ *
+ *       Each item gets its own result or error; an invalid item or a failed availability
+ *       check does not fail the rest of the batch.
+ *     tags: [Stock]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmartSelectBatchRequest'
+ *     responses:
+ *       200:
+ *         description: Per-item selection results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SmartSelectBatchResponse'
+ *       400:
+ *         description: Missing, empty or oversized requests array
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.post('/api/stock/smart-select/batch', smartProductSelectBatch);
+
 /**
  * @swagger
  * /api/products/{tcin}:
@@ -312,6 +592,17 @@ app.post('/api/stock/smart-select', smartProductSelect);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: RedCircle temporarily unavailable (CIRCUIT_OPEN or CREDIT_BUDGET_EXHAUSTED), see Retry-After
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until RedCircle calls resume, when known
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 app.get('/api/products/:tcin', getProductByTcin);
 
@@ -350,6 +641,17 @@ app.get('/api/products/:tcin', getProductByTcin);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: RedCircle temporarily unavailable (CIRCUIT_OPEN or CREDIT_BUDGET_EXHAUSTED), see Retry-After
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until RedCircle calls resume, when known
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 app.get('/api/products/upc/:gtin', getProductByUpc);
 
@@ -394,6 +696,17 @@ app.get('/api/products/upc/:gtin', getProductByUpc);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: RedCircle temporarily unavailable (CIRCUIT_OPEN or CREDIT_BUDGET_EXHAUSTED), see Retry-After
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until RedCircle calls resume, when known
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 app.get('/api/products/search', searchProductsHandler);
 
@@ -422,7 +735,7 @@ app.use((req: Request, res: Response) => {
  * Global error handler
  */
 app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('[Server Error]', error);
+  logger.error('Unhandled error', { error });
 
   res.status(500).json({
     error: {
@@ -446,34 +759,26 @@ app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
 function startServer(): void {
   // Validate environment variables
   if (!process.env.TARGET_API_KEY && process.env.NODE_ENV !== 'test') {
-    console.warn(
-      '⚠️  WARNING: TARGET_API_KEY not set in environment variables. '
-        + 'API calls will fail. Please set it in your .env file.',
-    );
+    logger.warn('TARGET_API_KEY not set in environment variables. API calls will fail.');
   }
 
+  // Start tracing (no-op unless OTEL_TRACES_EXPORTER is set)
+  startTracing();
+
+  // Start scheduled cache warming (no-op unless CACHE_WARM_CONFIG_FILE is set)
+  startCacheWarming();
+
+  // Start batched analytics delivery (no-op unless ANALYTICS_SINKS is set)
+  startAnalytics();
+
   // Start listening
   app.listen(PORT, () => {
-    console.log('='.repeat(60));
-    console.log('🎯 Target RedCircle API Backend');
-    console.log('='.repeat(60));
-    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-    console.log(`Server running on: http://localhost:${PORT}`);
-    console.log(`\n📖 API Documentation: http://localhost:${PORT}/api-docs`);
-    console.log(`OpenAPI Spec: http://localhost:${PORT}/api-docs.json`);
-    console.log('\n🔍 Endpoints:');
-    console.log(`  Health check: GET http://localhost:${PORT}/api/health`);
-    console.log(
-      `  Smart select: POST http://localhost:${PORT}/api/stock/smart-select`,
-    );
-    console.log('='.repeat(60));
-
-    if (process.env.NODE_ENV === 'development') {
-      console.log('\n📚 Development Mode Active');
-      console.log('- Verbose logging enabled');
-      console.log('- Cache statistics will be logged every 5 minutes');
-      console.log('- CORS allows all origins\n');
-    }
+    logger.info(`Target RedCircle API Backend running on http://localhost:${PORT}`, {
+      environment: process.env.NODE_ENV || 'development',
+      port: PORT,
+      docs: `http://localhost:${PORT}/api-docs`,
+      openApiSpec: `http://localhost:${PORT}/api-docs.json`,
+    });
   });
 }
 
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview API key authentication and per-client quotas
+ * @description Authenticates /api requests by API key, enforces per-client route access,
+ * per-minute rate limits and daily RedCircle credit quotas. /api/admin routes use a separate
+ * admin key (ADMIN_API_KEY) instead
+ * @module middleware/auth
+ * @related config/api-keys.ts, utils/request-context.ts
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { ApiClientConfig } from '../types';
+import { loadApiClients } from '../config/api-keys';
+import { getRequestContext } from '../utils/request-context';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Auth');
+
+// ============================================================================
+// Client Registry
+// ============================================================================
+
+/**
+ * Configured clients indexed by SHA-256 of their key (keys are never compared in plain text)
+ */
+const clientsByKeyHash = new Map<string, ApiClientConfig>();
+
+/**
+ * Whether authentication is enforced
+ * Disabled only when no keys are configured at all; a malformed config fails closed
+ */
+let authEnabled = false;
+
+try {
+  const clients = loadApiClients();
+  clients.forEach((client) => clientsByKeyHash.set(hashKey(client.key), client));
+  authEnabled = clients.length > 0;
+} catch (error) {
+  logger.error('Invalid API key configuration, rejecting all /api requests', { error: (error as Error).message });
+  authEnabled = true;
+}
+
+if (!authEnabled && process.env.NODE_ENV !== 'test') {
+  logger.warn('No API keys configured (API_KEYS / API_KEYS_FILE). /api routes are public.');
+}
+
+/**
+ * SHA-256 of ADMIN_API_KEY. Admin routes fail closed (503) when it isn't set
+ */
+const adminKeyHash = process.env.ADMIN_API_KEY ? hashKey(process.env.ADMIN_API_KEY) : undefined;
+
+/**
+ * Daily RedCircle credit usage per client (UTC day, per instance)
+ */
+const dailyUsage = new Map<string, { day: string; credits: number }>();
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Authenticate the request by API key and check route access
+ * Accepts `X-API-Key: <key>` or `Authorization: Bearer <key>`
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Next middleware
+ */
+export function authenticateApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (!authEnabled) {
+    next();
+    return;
+  }
+
+  const apiKey = extractApiKey(req);
+  const client = apiKey ? clientsByKeyHash.get(hashKey(apiKey)) : undefined;
+
+  if (!client) {
+    sendAuthError(res, 401, 'UNAUTHORIZED', apiKey ? 'Invalid API key' : 'API key is required');
+    return;
+  }
+
+  const path = req.originalUrl.split('?')[0];
+  if (!isRouteAllowed(client.allowedRoutes, req.method, path)) {
+    sendAuthError(res, 403, 'FORBIDDEN', `API key is not allowed to access ${req.method} ${path}`);
+    return;
+  }
+
+  res.locals.apiClient = client;
+
+  const context = getRequestContext();
+  if (context) {
+    context.clientId = client.clientId;
+  }
+
+  next();
+}
+
+/**
+ * Require the admin key for /api/admin routes
+ * Accepts `X-Admin-Key: <key>` only. Client API keys never grant admin access, and the
+ * routes are disabled (503) when ADMIN_API_KEY is not configured
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Next middleware
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction): void {
+  if (!adminKeyHash) {
+    sendAuthError(res, 503, 'ADMIN_DISABLED', 'Admin endpoints are disabled (ADMIN_API_KEY is not set)');
+    return;
+  }
+
+  const adminKey = req.get('x-admin-key')?.trim();
+  const valid = !!adminKey && crypto.timingSafeEqual(
+    Buffer.from(hashKey(adminKey), 'hex'),
+    Buffer.from(adminKeyHash, 'hex'),
+  );
+
+  if (!valid) {
+    sendAuthError(res, 401, 'UNAUTHORIZED', adminKey ? 'Invalid admin key' : 'Admin key is required (X-Admin-Key)');
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Per-client rate limit (requests per minute, configured per key)
+ * Skipped when authentication is disabled
+ */
+export const clientRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (_req: Request, res: Response) => (res.locals.apiClient as ApiClientConfig).rateLimitPerMinute || 60,
+  keyGenerator: (_req: Request, res: Response) => (res.locals.apiClient as ApiClientConfig).clientId,
+  skip: (_req: Request, res: Response) => !res.locals.apiClient,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    sendAuthError(res, 429, 'RATE_LIMIT_EXCEEDED', 'Client rate limit exceeded, retry in a minute');
+  },
+});
+
+/**
+ * Enforce the client's daily RedCircle credit quota
+ * Credits are charged as they are spent, including stale-cache refreshes the request started
+ * in the background that finish after the response
+ *
+ * @param _req - Express request (unused)
+ * @param res - Express response
+ * @param next - Next middleware
+ */
+export function enforceCreditQuota(_req: Request, res: Response, next: NextFunction): void {
+  const client = res.locals.apiClient as ApiClientConfig | undefined;
+  if (!client) {
+    next();
+    return;
+  }
+
+  if (client.dailyCreditQuota !== undefined && getDailyCredits(client.clientId) >= client.dailyCreditQuota) {
+    sendAuthError(
+      res,
+      429,
+      'QUOTA_EXCEEDED',
+      `Daily credit quota of ${client.dailyCreditQuota} exhausted for client ${client.clientId}`,
+    );
+    return;
+  }
+
+  const context = getRequestContext();
+  if (context) {
+    context.onCredits = (credits) => addDailyCredits(client.clientId, credits);
+  }
+
+  next();
+}
+
+/**
+ * Get today's credit usage for every client
+ *
+ * @returns Map of clientId to credits used today (UTC)
+ */
+export function getClientCreditUsage(): Record<string, number> {
+  const usage: Record<string, number> = {};
+  clientsByKeyHash.forEach(({ clientId }) => {
+    usage[clientId] = getDailyCredits(clientId);
+  });
+  return usage;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Hash an API key for lookup
+ *
+ * @param key - Raw API key
+ * @returns Hex-encoded SHA-256 digest
+ */
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Extract the API key from request headers
+ *
+ * @param req - Express request
+ * @returns API key or undefined
+ */
+function extractApiKey(req: Request): string | undefined {
+  const headerKey = req.get('x-api-key');
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a route matches any allowed route pattern
+ *
+ * @param allowedRoutes - Patterns ("*", "/path", "METHOD /path", trailing "*" wildcard)
+ * @param method - HTTP method
+ * @param path - Request path (without query string)
+ * @returns True if allowed
+ */
+function isRouteAllowed(allowedRoutes: string[], method: string, path: string): boolean {
+  return allowedRoutes.some((pattern) => {
+    if (pattern === '*') {
+      return true;
+    }
+
+    const [patternMethod, patternPath] = pattern.includes(' ')
+      ? pattern.split(/\s+/, 2)
+      : [undefined, pattern];
+
+    if (patternMethod && patternMethod.toUpperCase() !== method.toUpperCase()) {
+      return false;
+    }
+
+    return patternPath.endsWith('*')
+      ? path.startsWith(patternPath.slice(0, -1))
+      : path === patternPath;
+  });
+}
+
+/**
+ * Get credits used today by a client
+ *
+ * @param clientId - Client ID
+ * @returns Credits used today (UTC)
+ */
+function getDailyCredits(clientId: string): number {
+  const usage = dailyUsage.get(clientId);
+  return usage && usage.day === currentDay() ? usage.credits : 0;
+}
+
+/**
+ * Add credits to a client's daily usage
+ *
+ * @param clientId - Client ID
+ * @param credits - Credits to add
+ */
+function addDailyCredits(clientId: string, credits: number): void {
+  dailyUsage.set(clientId, {
+    day: currentDay(),
+    credits: getDailyCredits(clientId) + credits,
+  });
+}
+
+/**
+ * Current UTC day (YYYY-MM-DD)
+ */
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Send a structured auth error (same format as controller errors)
+ *
+ * @param res - Express response
+ * @param status - HTTP status
+ * @param code - Error code
+ * @param message - Error message
+ */
+function sendAuthError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({
+    error: {
+      code,
+      message,
+    },
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Request context middleware
+ * @description Opens a per-request AsyncLocalStorage context for downstream services,
+ * assigns the request's correlation ID and logs each completed request
+ * @module middleware/request-context
+ * @related utils/request-context.ts, utils/logger.ts
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { getRequestContext, runWithRequestContext } from '../utils/request-context';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('HTTP');
+
+/**
+ * Accepted X-Request-Id values (anything else is replaced by a generated ID)
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Run the rest of the middleware chain inside a fresh request context
+ * The request ID comes from the X-Request-Id header (if well-formed) or is generated,
+ * and is echoed in the X-Request-Id response header
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Next middleware
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const headerId = req.get('x-request-id');
+  const requestId = headerId && REQUEST_ID_PATTERN.test(headerId) ? headerId : crypto.randomUUID();
+  const startTime = Date.now();
+
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithRequestContext({ requestId, creditsUsed: 0 }, () => {
+    const context = getRequestContext();
+    res.on('finish', () => {
+      runWithRequestContext(context || { requestId, creditsUsed: 0 }, () => {
+        logger.info(`${req.method} ${req.path} ${res.statusCode}`, {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs: Date.now() - startTime,
+          creditsUsed: context?.creditsUsed,
+        });
+      });
+    });
+
+    next();
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Analytics event bus
+ * @description Fans analytics events out to the configured sinks in batches. Each sink has
+ * its own bounded queue, so a slow sink only holds back itself; when its queue is full new
+ * events are dropped and counted. Substitutions are also aggregated per primary product
+ * and ZIP code for the admin analytics endpoint
+ * @module services/analytics/event-bus
+ * @related services/analytics/sinks.ts, services/stock/product-selector.ts, controllers/admin.ts
+ */
+
+import {
+  AnalyticsEvent,
+  AnalyticsSink,
+  AnalyticsSinkStats,
+  SubstitutionEvent,
+} from '../../types';
+import { createJsonLinesSink, createWebhookSink, createBatchWriterSink } from './sinks';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Analytics');
+
+// ============================================================================
+// Bus Configuration
+// ============================================================================
+
+/**
+ * Enabled sinks, comma-separated: jsonl, webhook, batch (empty = aggregate only)
+ */
+const ANALYTICS_SINKS = (process.env.ANALYTICS_SINKS || '')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+/**
+ * Events per sink write
+ */
+const ANALYTICS_BATCH_SIZE = parseInt(process.env.ANALYTICS_BATCH_SIZE || '100', 10);
+
+/**
+ * Interval between flushes of partial batches
+ */
+const ANALYTICS_FLUSH_INTERVAL_MS = parseInt(process.env.ANALYTICS_FLUSH_INTERVAL_MS || '5000', 10);
+
+/**
+ * Events buffered per sink before new events are dropped
+ */
+const ANALYTICS_MAX_QUEUE_SIZE = parseInt(process.env.ANALYTICS_MAX_QUEUE_SIZE || '10000', 10);
+
+/**
+ * Primary products tracked in the substitution summary (keeps memory bounded)
+ */
+const MAX_TRACKED_PRIMARIES = 5000;
+
+// ============================================================================
+// Bus State
+// ============================================================================
+
+/**
+ * Bounded queue of events waiting to be written to one sink
+ */
+class SinkQueue {
+  readonly stats: AnalyticsSinkStats;
+
+  private readonly events: AnalyticsEvent[] = [];
+
+  private draining: Promise<void> | null = null; // Drain in progress (one write per sink at a time)
+
+  constructor(readonly sink: AnalyticsSink) {
+    this.stats = {
+      name: sink.name,
+      queued: 0,
+      delivered: 0,
+      failed: 0,
+      dropped: 0,
+    };
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Queue an event, or drop it (counted) when the queue is full
+   * A full batch is flushed in the background
+   */
+  push(event: AnalyticsEvent): void {
+    // Backpressure: a sink whose queue is full loses new events
+    if (this.events.length >= ANALYTICS_MAX_QUEUE_SIZE) {
+      this.stats.dropped++;
+      return;
+    }
+
+    this.events.push(event);
+    if (this.events.length >= ANALYTICS_BATCH_SIZE) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Write queued events in batches until the queue is empty
+   * Only one drain runs at a time; callers during a drain wait for it
+   *
+   * @returns Resolves when the queue is drained
+   */
+  flush(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Write one batch, then continue with the rest (events queued meanwhile are included)
+   * Failed batches are counted and not retried
+   */
+  private async drain(): Promise<void> {
+    const batch = this.events.splice(0, ANALYTICS_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    try {
+      await this.sink.write(batch);
+      this.stats.delivered += batch.length;
+    } catch (error) {
+      this.stats.failed += batch.length;
+      this.stats.lastError = (error as Error).message;
+      logger.warn(`Sink ${this.sink.name} failed to write ${batch.length} events`, { sink: this.sink.name, error });
+    }
+    this.stats.lastFlushAt = new Date().toISOString();
+
+    await this.drain();
+  }
+}
+
+interface PrimarySubstitutions {
+  primaryId: string;
+  total: number;
+  byZipCode: Record<string, number>;
+  byReplacement: Record<string, number>;
+  byReason: Record<string, number>;
+}
+
+const startedAt = new Date().toISOString();
+const sinks = createConfiguredSinks().map((sink) => new SinkQueue(sink));
+const emittedByType: Record<string, number> = {};
+const substitutionsByPrimary = new Map<string, PrimarySubstitutions>();
+let untrackedSubstitutions = 0;
+let flushTimer: NodeJS.Timeout | null = null;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Start the periodic flush of partial batches
+ * Does nothing if no sinks are configured
+ */
+export function startAnalytics(): void {
+  if (sinks.length === 0 || flushTimer) {
+    return;
+  }
+
+  flushTimer = setInterval(() => {
+    flushAnalytics().catch((error) => {
+      logger.error('Flush failed', { error });
+    });
+  }, ANALYTICS_FLUSH_INTERVAL_MS);
+  flushTimer.unref();
+
+  logger.info(
+    `Sending events to ${sinks.map((queue) => queue.sink.name).join(', ')} `
+    + `(batch: ${ANALYTICS_BATCH_SIZE}, flush every ${ANALYTICS_FLUSH_INTERVAL_MS}ms)`,
+  );
+}
+
+/**
+ * Stop the periodic flush
+ */
+export function stopAnalytics(): void {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+}
+
+/**
+ * Emit an analytics event
+ * Never throws and never waits for delivery; full batches are flushed in the background
+ *
+ * @param event - Event to record
+ */
+export function emitAnalyticsEvent(event: AnalyticsEvent): void {
+  emittedByType[event.type] = (emittedByType[event.type] || 0) + 1;
+
+  if (event.type === 'product_substitution') {
+    recordSubstitution(event);
+  }
+
+  sinks.forEach((queue) => queue.push(event));
+}
+
+/**
+ * Flush every sink's queue
+ *
+ * @returns Resolves when every queue is drained
+ */
+export async function flushAnalytics(): Promise<void> {
+  await Promise.all(sinks.map((queue) => queue.flush()));
+}
+
+/**
+ * Get event counters, sink delivery stats and the substitution summary
+ *
+ * @param limit - Maximum primary products to list (most substituted first)
+ * @returns Analytics snapshot
+ */
+export function getAnalyticsSummary(limit = 50) {
+  const primaries = Array.from(substitutionsByPrimary.values())
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+
+  return {
+    startedAt,
+    eventsEmitted: { ...emittedByType },
+    sinks: sinks.map((queue) => ({ ...queue.stats, queued: queue.length })),
+    substitutions: {
+      trackedPrimaries: substitutionsByPrimary.size,
+      untracked: untrackedSubstitutions,
+      primaries,
+    },
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Add a substitution to the per-primary summary
+ *
+ * @param event - Substitution event
+ */
+function recordSubstitution(event: SubstitutionEvent): void {
+  let entry = substitutionsByPrimary.get(event.originalId);
+  if (!entry) {
+    if (substitutionsByPrimary.size >= MAX_TRACKED_PRIMARIES) {
+      untrackedSubstitutions++;
+      return;
+    }
+    entry = {
+      primaryId: event.originalId,
+      total: 0,
+      byZipCode: {},
+      byReplacement: {},
+      byReason: {},
+    };
+    substitutionsByPrimary.set(event.originalId, entry);
+  }
+
+  entry.total++;
+  entry.byZipCode[event.zipCode] = (entry.byZipCode[event.zipCode] || 0) + 1;
+  entry.byReplacement[event.replacementId] = (entry.byReplacement[event.replacementId] || 0) + 1;
+  entry.byReason[event.reason] = (entry.byReason[event.reason] || 0) + 1;
+}
+
+/**
+ * Create the sinks listed in ANALYTICS_SINKS
+ * Sinks missing their settings are skipped with a warning
+ *
+ * @returns Configured sinks
+ */
+function createConfiguredSinks(): AnalyticsSink[] {
+  const configured: AnalyticsSink[] = [];
+
+  ANALYTICS_SINKS.forEach((name) => {
+    if (name === 'jsonl' && process.env.ANALYTICS_JSONL_FILE) {
+      configured.push(createJsonLinesSink(process.env.ANALYTICS_JSONL_FILE));
+    } else if (name === 'webhook' && process.env.ANALYTICS_WEBHOOK_URL) {
+      configured.push(createWebhookSink(process.env.ANALYTICS_WEBHOOK_URL));
+    } else if (name === 'batch' && process.env.ANALYTICS_BATCH_URL) {
+      configured.push(createBatchWriterSink(process.env.ANALYTICS_BATCH_URL, process.env.ANALYTICS_BATCH_TOKEN));
+    } else {
+      logger.warn(`Sink "${name}" is unknown or not configured, skipping`);
+    }
+  });
+
+  return configured;
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Analytics event sinks
+ * @description Destinations for analytics event batches: a JSON-lines file, an HTTP
+ * webhook and a BigQuery-style batch writer (tabledata.insertAll request format)
+ * @module services/analytics/sinks
+ * @related services/analytics/event-bus.ts
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import axios from 'axios';
+import { AnalyticsEvent, AnalyticsSink } from '../../types';
+
+/**
+ * Timeout for HTTP sinks
+ */
+const SINK_HTTP_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// Sink Factories
+// ============================================================================
+
+/**
+ * Append events to a file, one JSON object per line
+ *
+ * @param filePath - File to append to (created if missing)
+ * @returns JSON-lines sink
+ */
+export function createJsonLinesSink(filePath: string): AnalyticsSink {
+  return {
+    name: 'jsonl',
+    async write(events: AnalyticsEvent[]): Promise<void> {
+      const lines = events.map((event) => JSON.stringify(event)).join('\n');
+      await fs.promises.appendFile(filePath, `${lines}\n`, 'utf8');
+    },
+  };
+}
+
+/**
+ * POST each batch to a webhook as `{ "events": [...] }`
+ *
+ * @param url - Webhook URL
+ * @returns Webhook sink (non-2xx responses reject the batch)
+ */
+export function createWebhookSink(url: string): AnalyticsSink {
+  return {
+    name: 'webhook',
+    async write(events: AnalyticsEvent[]): Promise<void> {
+      await axios.post(url, { events }, { timeout: SINK_HTTP_TIMEOUT_MS });
+    },
+  };
+}
+
+/**
+ * POST each batch as a BigQuery tabledata.insertAll request
+ * (`rows: [{ insertId, json }]`), so it can target BigQuery or a compatible collector
+ *
+ * @param url - insertAll endpoint
+ * @param token - Optional bearer token
+ * @returns Batch writer sink (the batch is rejected if any row is rejected)
+ */
+export function createBatchWriterSink(url: string, token?: string): AnalyticsSink {
+  return {
+    name: 'batch',
+    async write(events: AnalyticsEvent[]): Promise<void> {
+      const response = await axios.post<{ insertErrors?: unknown[] }>(
+        url,
+        {
+          kind: 'bigquery#tableDataInsertAllRequest',
+          skipInvalidRows: false,
+          rows: events.map((event) => ({
+            insertId: crypto.randomUUID(), // Unique per row (failed batches aren't resent, nothing to deduplicate)
+            json: event,
+          })),
+        },
+        {
+          timeout: SINK_HTTP_TIMEOUT_MS,
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        },
+      );
+
+      const insertErrors = response.data?.insertErrors || [];
+      if (insertErrors.length > 0) {
+        throw new Error(`Batch writer rejected ${insertErrors.length} rows`);
+      }
+    },
+  };
+}
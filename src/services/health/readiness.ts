@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Readiness check
+ * @description Decides whether this instance should receive traffic: the cache backend
+ * must answer and RedCircle must be reachable. RedCircle reachability comes from recent
+ * real calls when there are any; otherwise a probe (one credit) runs, at most once per
+ * interval, and its result is reused until the next one is due
+ * @module services/health/readiness
+ * @related controllers/stock.ts, services/target/api.ts, services/target/circuit-breaker.ts,
+ * services/target/credit-ledger.ts
+ */
+
+import { ReadinessReport, ReadinessStatus } from '../../types';
+import { stockCache } from '../../utils/cache';
+import { checkApiHealth, getUpstreamStatus } from '../target/api';
+import { getCreditLedger } from '../target/credit-ledger';
+import { getCircuitStatus, isCircuitOpen } from '../target/circuit-breaker';
+import { createLogger } from '../../utils/logger';
+
+// ============================================================================
+// Readiness Configuration
+// ============================================================================
+
+/**
+ * How long a successful RedCircle call (real or probe) counts as proof the upstream is up
+ */
+const UPSTREAM_OK_MAX_AGE_SECONDS = parseInt(process.env.HEALTH_UPSTREAM_PROBE_INTERVAL_SECONDS || '300', 10);
+
+/**
+ * How long a failed RedCircle call is trusted before probing again (faster recovery)
+ */
+const UPSTREAM_FAILURE_MAX_AGE_SECONDS = parseInt(process.env.HEALTH_UPSTREAM_RETRY_SECONDS || '30', 10);
+
+/**
+ * Timeout for the upstream probe (no retries)
+ */
+const UPSTREAM_PROBE_TIMEOUT_MS = parseInt(process.env.HEALTH_UPSTREAM_PROBE_TIMEOUT_MS || '3000', 10);
+
+const logger = createLogger('Readiness');
+
+// ============================================================================
+// Readiness State
+// ============================================================================
+
+/**
+ * Probe in flight (concurrent readiness checks share it)
+ */
+let pendingProbe: Promise<boolean> | null = null;
+
+/**
+ * Time of the last probe, so a probe that can't record an outcome isn't repeated every check
+ */
+let lastProbeAt = 0;
+
+/**
+ * Time of the upstream outcome the last probe recorded (tells probe results from traffic)
+ */
+let probeOutcomeAt = 0;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check whether this instance is ready for traffic
+ *
+ * - not_ready: the cache backend doesn't answer, or RedCircle is failing while the circuit is closed
+ * - degraded: the daily credit budget is used up (cache-only mode still answers requests)
+ *   or the RedCircle circuit is open (smart-select answers from cache or the fallback URLs).
+ *   Upstream failures while the circuit is open are expected and keep the status degraded
+ * - ready: everything else
+ *
+ * @returns Readiness report with each check's result
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const [cache, upstream] = await Promise.all([checkCache(), checkUpstream()]);
+  // After the upstream check, which may have run the half-open probe
+  const circuit = checkCircuit();
+  const credits = checkCredits();
+
+  let status: ReadinessStatus = 'ready';
+  if (cache.status === 'fail') {
+    status = 'not_ready';
+  } else if (circuit.status === 'fail' || credits.status === 'exhausted') {
+    status = 'degraded';
+  } else if (upstream.status === 'fail') {
+    status = 'not_ready';
+  }
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    checks: {
+      cache,
+      upstream,
+      circuit,
+      credits,
+    },
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Ping the cache backend (Redis round trip; always ok in memory mode)
+ *
+ * @returns Cache check result
+ */
+async function checkCache(): Promise<ReadinessReport['checks']['cache']> {
+  const startedAt = Date.now();
+  try {
+    await stockCache.ping?.();
+    return { status: 'ok', backend: stockCache.backend, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'fail',
+      backend: stockCache.backend,
+      latencyMs: Date.now() - startedAt,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Check RedCircle reachability from recent calls, probing only when they are too old
+ * In cache-only mode RedCircle isn't called, so the check is skipped
+ *
+ * @returns Upstream check result
+ */
+async function checkUpstream(): Promise<ReadinessReport['checks']['upstream']> {
+  if (getCreditLedger().cacheOnlyMode) {
+    return { status: 'skipped', source: 'none' };
+  }
+
+  const recent = getRecentOutcome();
+  if (recent) {
+    return recent;
+  }
+
+  if (!process.env.TARGET_API_KEY) {
+    return { status: 'fail', source: 'none', errorCode: 'API_KEY_NOT_CONFIGURED' };
+  }
+
+  // Probe at most once per failure interval, even if the probe recorded no outcome
+  if (Date.now() - lastProbeAt >= UPSTREAM_FAILURE_MAX_AGE_SECONDS * 1000) {
+    await runProbe();
+  }
+
+  return getRecentOutcome()
+    || { status: 'fail', source: 'probe', errorCode: getUpstreamStatus().lastErrorCode };
+}
+
+/**
+ * Latest RedCircle outcome, if it is recent enough to trust
+ * Successes are trusted for UPSTREAM_OK_MAX_AGE_SECONDS, failures for UPSTREAM_FAILURE_MAX_AGE_SECONDS
+ *
+ * @returns Upstream status, or undefined if a probe is due
+ */
+function getRecentOutcome(): ReadinessReport['checks']['upstream'] | undefined {
+  const { lastSuccessAt = 0, lastFailureAt = 0, lastErrorCode } = getUpstreamStatus();
+  const succeeded = lastSuccessAt >= lastFailureAt;
+  const lastAt = Math.max(lastSuccessAt, lastFailureAt);
+  const ageSeconds = Math.floor((Date.now() - lastAt) / 1000);
+  const maxAge = succeeded ? UPSTREAM_OK_MAX_AGE_SECONDS : UPSTREAM_FAILURE_MAX_AGE_SECONDS;
+
+  if (lastAt === 0 || ageSeconds >= maxAge) {
+    return undefined;
+  }
+
+  return {
+    status: succeeded ? 'ok' : 'fail',
+    source: lastAt === probeOutcomeAt ? 'probe' : 'traffic',
+    checkedAt: new Date(lastAt).toISOString(),
+    ageSeconds,
+    errorCode: succeeded ? undefined : lastErrorCode,
+  };
+}
+
+/**
+ * Probe RedCircle once (shared by concurrent callers)
+ * The outcome is recorded in the upstream status by the API client
+ *
+ * @returns True if the probe succeeded
+ */
+function runProbe(): Promise<boolean> {
+  if (!pendingProbe) {
+    lastProbeAt = Date.now();
+    logger.info('Probing RedCircle (no recent upstream calls)');
+    pendingProbe = checkApiHealth({ timeout: UPSTREAM_PROBE_TIMEOUT_MS, retryAttempts: 0 })
+      .finally(() => {
+        const { lastSuccessAt = 0, lastFailureAt = 0 } = getUpstreamStatus();
+        probeOutcomeAt = Math.max(lastSuccessAt, lastFailureAt);
+        pendingProbe = null;
+      });
+  }
+  return pendingProbe;
+}
+
+/**
+ * Report the RedCircle circuit breaker: fail while it refuses calls
+ *
+ * @returns Circuit check result
+ */
+function checkCircuit(): ReadinessReport['checks']['circuit'] {
+  const { state, retryAt } = getCircuitStatus();
+  return { status: isCircuitOpen() ? 'fail' : 'ok', state, retryAt };
+}
+
+/**
+ * Report the credit budget: exhausted in cache-only mode, low when the account balance
+ * is under the warning threshold
+ *
+ * @returns Credit check result
+ */
+function checkCredits(): ReadinessReport['checks']['credits'] {
+  const ledger = getCreditLedger();
+
+  let status: ReadinessReport['checks']['credits']['status'] = 'ok';
+  if (ledger.cacheOnlyMode) {
+    status = 'exhausted';
+  } else if (
+    ledger.creditsRemaining !== null
+    && ledger.creditsRemainingWarnThreshold !== null
+    && ledger.creditsRemaining < ledger.creditsRemainingWarnThreshold
+  ) {
+    status = 'low';
+  }
+
+  return {
+    status,
+    cacheOnlyMode: ledger.cacheOnlyMode,
+    dailyBudget: ledger.dailyBudget,
+    dailyBudgetRemaining: ledger.dailyBudgetRemaining,
+    creditsRemaining: ledger.creditsRemaining,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Prometheus metrics
+ * @description Metric registry exposed at GET /metrics in the Prometheus text format:
+ * RedCircle latency, errors and circuit state, cache statistics, substitution outcomes and
+ * process metrics
+ * @module services/metrics/prometheus
+ * @related services/target/api.ts, services/stock/product-selector.ts, controllers/admin.ts
+ */
+
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { CacheStore } from '../../types';
+import { stockCache, productCache, getCacheStats } from '../../utils/cache';
+import { getCircuitStatus } from '../target/circuit-breaker';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Registry();
+
+// Process metrics (CPU, memory, event loop lag, GC), collected on each scrape
+collectDefaultMetrics({ register: registry });
+
+/**
+ * Latency of individual RedCircle calls (each attempt; time queued in the scheduler excluded)
+ */
+const upstreamDuration = new Histogram({
+  name: 'redcircle_request_duration_seconds',
+  help: 'Latency of RedCircle API calls by request type',
+  labelNames: ['type'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 4, 8, 15],
+  registers: [registry],
+});
+
+const upstreamErrors = new Counter({
+  name: 'redcircle_request_errors_total',
+  help: 'Failed RedCircle API calls by request type and ApiError code (each failed attempt)',
+  labelNames: ['type', 'code'] as const,
+  registers: [registry],
+});
+
+// Refreshed from the circuit breaker before each scrape
+const circuitState = new Gauge({
+  name: 'redcircle_circuit_state',
+  help: 'RedCircle circuit breaker state (0 closed, 1 half-open, 2 open)',
+  registers: [registry],
+});
+
+const CIRCUIT_STATE_VALUES = { closed: 0, half_open: 1, open: 2 } as const;
+
+const selectionDuration = new Histogram({
+  name: 'smart_select_duration_seconds',
+  help: 'Smart selection request duration by endpoint',
+  labelNames: ['endpoint'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20],
+  registers: [registry],
+});
+
+const backupsUsed = new Counter({
+  name: 'smart_select_backups_used_total',
+  help: 'Backup products used in place of a primary, by substitution reason',
+  labelNames: ['reason'] as const,
+  registers: [registry],
+});
+
+const allUnavailable = new Counter({
+  name: 'smart_select_all_products_unavailable_total',
+  help: 'Smart selections where no product was available (fallback URL returned)',
+  registers: [registry],
+});
+
+// Cache gauges are refreshed from getCacheStats before each scrape
+const cacheKeys = new Gauge({
+  name: 'cache_keys',
+  help: 'Entries in the cache',
+  labelNames: ['cache', 'backend'] as const,
+  registers: [registry],
+});
+
+const cacheHits = new Gauge({
+  name: 'cache_hits',
+  help: 'Cache hits since startup (per instance)',
+  labelNames: ['cache', 'backend'] as const,
+  registers: [registry],
+});
+
+const cacheMisses = new Gauge({
+  name: 'cache_misses',
+  help: 'Cache misses since startup (per instance)',
+  labelNames: ['cache', 'backend'] as const,
+  registers: [registry],
+});
+
+const cacheHitRatio = new Gauge({
+  name: 'cache_hit_ratio',
+  help: 'Cache hit ratio since startup (0-1)',
+  labelNames: ['cache', 'backend'] as const,
+  registers: [registry],
+});
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record the latency of one RedCircle call
+ *
+ * @param type - RedCircle request type (store_stock, product, search)
+ * @param durationMs - Call duration in milliseconds
+ */
+export function observeUpstreamLatency(type: string, durationMs: number): void {
+  upstreamDuration.observe({ type }, durationMs / 1000);
+}
+
+/**
+ * Record a failed RedCircle call
+ *
+ * @param type - RedCircle request type
+ * @param code - ApiError code (e.g. RATE_LIMIT_EXCEEDED, 500, NETWORK_ERROR)
+ */
+export function recordUpstreamError(type: string, code: string | number): void {
+  upstreamErrors.inc({ type, code: String(code) });
+}
+
+/**
+ * Record the duration of a smart selection request
+ *
+ * @param endpoint - Route (e.g. /api/stock/smart-select)
+ * @param durationMs - Request duration in milliseconds
+ */
+export function observeSelectionDuration(endpoint: string, durationMs: number): void {
+  selectionDuration.observe({ endpoint }, durationMs / 1000);
+}
+
+/**
+ * Record a backup product used in place of its primary
+ *
+ * @param reason - Substitution reason
+ */
+export function recordBackupUsed(reason: string): void {
+  backupsUsed.inc({ reason });
+}
+
+/**
+ * Record a selection where no product was available
+ */
+export function recordAllProductsUnavailable(): void {
+  allUnavailable.inc();
+}
+
+// ============================================================================
+// Exposition
+// ============================================================================
+
+/**
+ * Render all metrics in the Prometheus text format
+ * Cache and circuit gauges are refreshed first (one stats call per cache)
+ *
+ * @returns Content type and metrics text
+ */
+export async function getMetrics(): Promise<{ contentType: string; body: string }> {
+  await Promise.all([updateCacheGauges(stockCache), updateCacheGauges(productCache)]);
+  circuitState.set(CIRCUIT_STATE_VALUES[getCircuitStatus().state]);
+
+  return {
+    contentType: registry.contentType,
+    body: await registry.metrics(),
+  };
+}
+
+/**
+ * Set the cache gauges for one cache from its statistics
+ *
+ * @param cache - Cache store
+ */
+async function updateCacheGauges(cache: CacheStore): Promise<void> {
+  const stats = await getCacheStats(cache);
+  const labels = { cache: cache.namespace, backend: cache.backend };
+  cacheKeys.set(labels, stats.keys);
+  cacheHits.set(labels, stats.hits);
+  cacheMisses.set(labels, stats.misses);
+  cacheHitRatio.set(labels, stats.hitRate);
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Automatic backup discovery
+ * @description Proposes backups for groups whose primary and listed backups are all
+ * unavailable: the primary's variants first, then a search built from its brand and title.
+ * Candidates are stock-checked in the same ZIP code and only in-stock ones are added
+ * @module services/stock/auto-backups
+ * @related services/stock/product-selector.ts, services/target/api.ts
+ */
+
+import {
+  AutoBackupResult,
+  AutoBackupSource,
+  BackupGroup,
+  ProductAvailability,
+  StockCheckParams,
+} from '../../types';
+import { getFullProductByTcin, searchProducts } from '../target/api';
+import { checkBatchAvailability, getAvailability, isProductAvailable } from './availability';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Auto Backups');
+
+// ============================================================================
+// Discovery Configuration
+// ============================================================================
+
+/**
+ * Maximum candidates stock-checked per group
+ */
+const AUTO_BACKUP_MAX_CANDIDATES = parseInt(process.env.AUTO_BACKUP_MAX_CANDIDATES || '5', 10);
+
+/**
+ * Maximum RedCircle credits spent on discovery per request
+ * Every lookup counts as one credit, even if it is served from cache (worst case).
+ * Outside in-store fulfillment a candidate's stock check also fetches its product
+ * details, so each candidate counts as two
+ */
+const AUTO_BACKUP_MAX_CREDITS = parseInt(process.env.AUTO_BACKUP_MAX_CREDITS || '10', 10);
+
+/**
+ * Words of the product title used in the search query
+ */
+const SEARCH_TITLE_WORDS = 8;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Discover backups for groups that have no available product
+ *
+ * Groups are handled in order until the credit budget is used up. For each group:
+ * 1. Product details of the primary (1 credit) - its variants become candidates
+ * 2. If variants don't fill AUTO_BACKUP_MAX_CANDIDATES, a search for brand + title (1 credit)
+ * 3. Stock check of the candidates in the same location (1 credit each, 2 for pickup, delivery
+ *    and shipping, which also fetch each candidate's fulfillment options)
+ *
+ * In-stock candidates are appended to the group's backups (a TCIN is proposed for at
+ * most one group, and never if the request already lists it). Their availability is
+ * added to availabilityMap so the substitution algorithm can use them.
+ *
+ * @param backups - Backup groups (after ranking)
+ * @param availabilityMap - Availability data from the main check (extended in place)
+ * @param location - Where availability is checked (same as the main check)
+ * @returns Backup groups with discovered backups and where each came from
+ */
+export async function discoverAutoBackups(
+  backups: BackupGroup[],
+  availabilityMap: Map<string, ProductAvailability>,
+  location: Omit<StockCheckParams, 'productIds'>,
+): Promise<AutoBackupResult> {
+  const sources = new Map<string, Map<string, AutoBackupSource>>();
+  let creditsRemaining = AUTO_BACKUP_MAX_CREDITS;
+  const creditsPerCandidate = (location.fulfillment || 'in_store') === 'in_store' ? 1 : 2;
+
+  // TCINs already in the request or discovered for an earlier group are never proposed again
+  const taken = new Set(backups.flatMap((group) => [group.primaryId, ...group.backupIds]));
+
+  // Groups are handled one after another so the credit budget is spent in group order
+  const extended = await backups.reduce<Promise<BackupGroup[]>>(async (previous, group) => {
+    const done = await previous;
+    const requiredQuantity = group.allowSplit ? 1 : group.quantity ?? 1;
+    const candidates = [group.primaryId, ...group.backupIds];
+    const nothingAvailable = candidates.every((id) => (
+      !isProductAvailable(getAvailability(availabilityMap, id), requiredQuantity)
+    ));
+
+    // Need at least one lookup and one candidate check
+    if (!nothingAvailable || creditsRemaining < 1 + creditsPerCandidate) {
+      return [...done, group];
+    }
+
+    const found = await findCandidates(group, taken, creditsRemaining - creditsPerCandidate);
+    creditsRemaining -= found.creditsCharged;
+
+    const affordable = Math.floor(creditsRemaining / creditsPerCandidate);
+    const toCheck = found.candidates.slice(0, Math.min(AUTO_BACKUP_MAX_CANDIDATES, affordable));
+    creditsRemaining -= toCheck.length * creditsPerCandidate;
+
+    const inStock = await checkCandidateStock(toCheck.map((candidate) => candidate.productId), availabilityMap, {
+      ...location,
+      requiredQuantity,
+    });
+
+    const groupSources = new Map<string, AutoBackupSource>();
+    toCheck
+      .filter((candidate) => inStock.includes(candidate.productId))
+      .forEach((candidate) => {
+        groupSources.set(candidate.productId, candidate.source);
+        taken.add(candidate.productId);
+      });
+
+    if (groupSources.size > 0) {
+      sources.set(group.primaryId, groupSources);
+    }
+
+    logger.debug(
+      `${group.primaryId}: ${found.candidates.length} candidates, `
+      + `${toCheck.length} checked, ${groupSources.size} in stock`,
+    );
+
+    return [...done, { ...group, backupIds: [...group.backupIds, ...groupSources.keys()] }];
+  }, Promise.resolve([]));
+
+  return {
+    backups: extended,
+    sources,
+    creditsCharged: AUTO_BACKUP_MAX_CREDITS - creditsRemaining,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Collect candidate TCINs for a group from variants, then search
+ * Lookup failures (including cache-only mode) just yield fewer candidates
+ *
+ * @param group - Backup group with nothing available
+ * @param exclude - TCINs already in the request or taken by an earlier group
+ * @param lookupCredits - Credits left for lookups (one candidate check is already set aside)
+ * @returns Candidates in priority order and credits charged for lookups
+ */
+async function findCandidates(
+  group: BackupGroup,
+  exclude: Set<string>,
+  lookupCredits: number,
+): Promise<{ candidates: Array<{ productId: string; source: AutoBackupSource }>; creditsCharged: number }> {
+  const candidates: Array<{ productId: string; source: AutoBackupSource }> = [];
+  const add = (productId: string | undefined, source: AutoBackupSource) => {
+    if (productId && !exclude.has(productId) && !candidates.some((c) => c.productId === productId)) {
+      candidates.push({ productId, source });
+    }
+  };
+
+  let creditsCharged = 1;
+  let product;
+  try {
+    ({ product } = await getFullProductByTcin(group.primaryId));
+  } catch (error) {
+    logger.warn(`Could not fetch details for ${group.primaryId}`, { productId: group.primaryId, error });
+    return { candidates, creditsCharged };
+  }
+
+  product?.Variants?.forEach((variant) => add(variant.tcin, 'variant'));
+
+  const searchTerm = buildSearchTerm(product?.Brand, product?.Title);
+  if (searchTerm && candidates.length < AUTO_BACKUP_MAX_CANDIDATES && lookupCredits - creditsCharged >= 1) {
+    creditsCharged++;
+    try {
+      const results = await searchProducts(searchTerm);
+      results.search_results?.forEach((item) => add(item.product?.tcin, 'search'));
+    } catch (error) {
+      logger.warn(`Search failed for "${searchTerm}"`, { error });
+    }
+  }
+
+  return { candidates, creditsCharged };
+}
+
+/**
+ * Stock-check candidates and add their availability to the map
+ *
+ * @param productIds - Candidate TCINs
+ * @param availabilityMap - Availability map to extend
+ * @param params - Location and the quantity a candidate must cover
+ * @returns Candidates that are available in the required quantity
+ */
+async function checkCandidateStock(
+  productIds: string[],
+  availabilityMap: Map<string, ProductAvailability>,
+  params: Omit<StockCheckParams, 'productIds'> & { requiredQuantity: number },
+): Promise<string[]> {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const { requiredQuantity, ...location } = params;
+  try {
+    const result = await checkBatchAvailability({ productIds, ...location });
+    result.availabilityMap.forEach((availability, key) => availabilityMap.set(key, availability));
+  } catch (error) {
+    logger.warn('Stock check failed', { productIds, error });
+    return [];
+  }
+
+  return productIds.filter((id) => isProductAvailable(getAvailability(availabilityMap, id), requiredQuantity));
+}
+
+/**
+ * Build a search query from brand and title
+ * Titles often start with the brand, so it isn't repeated
+ *
+ * @param brand - Product brand
+ * @param title - Product title
+ * @returns Search term or undefined if there is no title
+ */
+function buildSearchTerm(brand: string | undefined, title: string | undefined): string | undefined {
+  if (!title) {
+    return undefined;
+  }
+
+  const titleWords = title.split(/\s+/).filter(Boolean).slice(0, SEARCH_TITLE_WORDS).join(' ');
+  return brand && !title.toLowerCase().startsWith(brand.toLowerCase())
+    ? `${brand} ${titleWords}`
+    : titleWords;
+}
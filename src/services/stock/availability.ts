@@ -10,9 +10,24 @@ import {
   StockCheckResult,
   ProductAvailability,
   ProductError,
+  StoreSelectionReason,
+  StorePolicy,
+  RejectedStore,
+  FulfillmentChannel,
+  TargetProductDetails,
   ApiError,
 } from '../../types';
-import { checkBulkStoreStock } from '../target/api';
+import { checkBulkStoreStock, getFullProductByTcin } from '../target/api';
+import { createLogger } from '../../utils/logger';
+import { withSpan } from '../../utils/tracing';
+
+const logger = createLogger('Availability');
+
+/**
+ * Quantity assumed available through shipping
+ * RedCircle reports whether a product ships, not how many units are available online
+ */
+const SHIPPING_AVAILABLE_QUANTITY = parseInt(process.env.FULFILLMENT_SHIPPING_QUANTITY || '99', 10);
 
 // ============================================================================
 // Availability Checking
@@ -22,6 +37,15 @@ import { checkBulkStoreStock } from '../target/api';
  * Check availability for multiple products concurrently
  * This is the main entry point for stock checking
  *
+ * Store stock decides in-store availability. For pickup, delivery and shipping the
+ * product's fulfillment options are fetched too (product details, cached 1 hour) and
+ * combined with store stock, so e.g. a product that ships but isn't on any nearby
+ * shelf is available in shipping mode.
+ *
+ * The store policy (distance radius, minimum stock, allow/deny lists) is applied to each
+ * product's store results before a store is selected; rejected stores are reported on
+ * the product's availability with the reason.
+ *
  * @param params - Stock check parameters
  * @returns Availability map and errors
  *
@@ -35,14 +59,43 @@ import { checkBulkStoreStock } from '../target/api';
  * const availability = result.availabilityMap.get('78025470');
  * console.log(availability?.inStock); // true/false
  */
-export async function checkBatchAvailability(
+export function checkBatchAvailability(
   params: StockCheckParams,
 ): Promise<StockCheckResult> {
-  const { productIds, zipCode, storeId } = params;
+  return withSpan(
+    'checkBatchAvailability',
+    {
+      'app.zip_code': params.zipCode,
+      'app.store_id': params.storeId,
+      'app.tcins': params.productIds,
+      'app.fulfillment': params.fulfillment || 'in_store',
+    },
+    () => runAvailabilityCheck(params),
+    (result) => ({
+      'app.in_stock_count': Array.from(result.availabilityMap.values()).filter((a) => a.inStock).length,
+      'app.error_count': result.errors.length,
+    }),
+  );
+}
 
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`[Availability] Checking ${productIds.length} products for ${zipCode}`);
-  }
+/**
+ * Check availability for a batch of products (see checkBatchAvailability)
+ *
+ * @param params - Stock check parameters
+ * @returns Availability map and errors
+ */
+async function runAvailabilityCheck(
+  params: StockCheckParams,
+): Promise<StockCheckResult> {
+  const {
+    productIds,
+    zipCode,
+    storeId,
+    storePolicy = {},
+  } = params;
+  const channel = params.fulfillment || 'in_store';
+
+  logger.debug(`Checking ${productIds.length} products for ${zipCode}`, { productIds, zipCode });
 
   // Initialize result containers
   const availabilityMap = new Map<string, ProductAvailability>();
@@ -50,108 +103,131 @@ export async function checkBatchAvailability(
 
   try {
     // Single bulk API call for all products (concurrent requests)
-    const stockResults = await checkBulkStoreStock(productIds, zipCode, storeId);
+    // Product fulfillment options are only needed beyond in-store availability
+    const [stockResults, fulfillmentOptions] = await Promise.all([
+      checkBulkStoreStock(productIds, zipCode, canUseStoreIndex(params) ? storeId : undefined),
+      channel === 'in_store' ? undefined : getFulfillmentOptions(productIds),
+    ]);
 
     // Process each product result
     productIds.forEach((productId) => {
-      try {
-        const stockData = stockResults.get(productId)
-                         || stockResults.get(productId.toString())
-                         || stockResults.get(Number(productId).toString());
-
-        if (!stockData || !stockData.store_stock_results) {
-          // Product not found or no stock data
-          if (process.env.NODE_ENV === 'development') {
-            console.log(`[Availability] ${productId}: No stock data - stockData exists: ${!!stockData}, store_stock_results: ${stockData?.store_stock_results}`);
-          }
-
-          const availability: ProductAvailability = {
-            productId,
-            inStock: false,
-            availableQuantity: 0,
-          };
-
-          // Store with multiple key types for flexible lookup
-          setAvailabilityForAllKeyTypes(availabilityMap, productId, availability);
-
-          errors.push({
-            productId,
-            error: 'No stock data available',
-            code: 'NO_STOCK_DATA',
-          });
-
-          return;
-        }
-
-        // Select store based on priority:
-        // 1. User-specified store (if provided)
-        // 2. First in-stock store (closest by distance)
-        // 3. First store in results (even if out of stock)
-        const selectedStore = selectBestStore(stockData.store_stock_results, storeId);
-
-        if (!selectedStore) {
-          // No stores found
-          const availability: ProductAvailability = {
-            productId,
-            inStock: false,
-            availableQuantity: 0,
-          };
-
-          setAvailabilityForAllKeyTypes(availabilityMap, productId, availability);
-
-          errors.push({
-            productId,
-            error: 'No stores found',
-            code: 'NO_STORES',
-          });
-
-          return;
-        }
-
-        // Build availability object
+      const lookup = stockResults.get(productId)
+                    || stockResults.get(productId.toString())
+                    || stockResults.get(Number(productId).toString());
+      const failedCode = lookup && 'errorCode' in lookup ? lookup.errorCode : undefined;
+      const stockLookup = lookup && !('errorCode' in lookup) ? lookup : undefined;
+      const stockData = stockLookup?.stock;
+
+      if (!stockData || !stockData.store_stock_results) {
+        // Lookup failed (e.g. CIRCUIT_OPEN), product not found or no stock data
+        logger.debug(`${productId}: No stock data`, { productId, hasStockData: !!stockData, errorCode: failedCode });
+
+        const errorCode = failedCode ?? 'NO_STOCK_DATA';
         const availability: ProductAvailability = {
           productId,
-          inStock: selectedStore.in_stock && (selectedStore.stock_level ?? 0) > 0,
-          availableQuantity: selectedStore.stock_level || 0,
-          storeId: selectedStore.store_id,
-          storeName: selectedStore.store_name,
-          distance: selectedStore.distance,
-          offerType: 'TARGET_PRODUCT', // Target doesn't use offer IDs
+          inStock: false,
+          availableQuantity: 0,
+          errorCode,
         };
 
-        // Store with multiple key types for flexible lookup (critical for Map.get() to work)
+        // Store with multiple key types for flexible lookup
         setAvailabilityForAllKeyTypes(availabilityMap, productId, availability);
 
-        if (process.env.NODE_ENV === 'development') {
-          console.log(
-            `[Availability] ${productId}: ${availability.inStock ? 'IN STOCK' : 'OUT OF STOCK'} `
-            + `at ${selectedStore.store_name} (${selectedStore.stock_level} units)`,
-          );
-        }
-      } catch (error) {
-        // Individual product error - don't fail entire batch
-        const apiError = error as ApiError;
         errors.push({
           productId,
-          error: apiError.message,
-          code: apiError.code,
+          error: failedCode !== undefined ? 'Stock lookup failed' : 'No stock data available',
+          code: errorCode,
         });
 
-        // Still add to availability map as unavailable
+        return;
+      }
+
+      // Drop stores the policy rules out, then select among the rest:
+      // 1. User-specified store, then the policy's preferred stores (first in stock)
+      // 2. User-specified store (if in results, even if out of stock)
+      // 3. First in-stock store (closest by distance)
+      // 4. First store in results (even if out of stock)
+      const { eligible, rejected } = applyStorePolicy(stockData.store_stock_results, storePolicy);
+      const { store: selectedStore, reason: storeSelectionReason } = selectBestStore(
+        eligible,
+        storeId,
+        storePolicy.preferredStoreIds,
+      );
+      const rejectedStores = rejected.length > 0 ? rejected : undefined;
+
+      if (!selectedStore) {
+        // No stores found, or the policy rejected all of them
+        const errorCode = rejected.length > 0 ? 'NO_ELIGIBLE_STORES' : 'NO_STORES';
         const availability: ProductAvailability = {
           productId,
           inStock: false,
           availableQuantity: 0,
+          errorCode,
+          rejectedStores,
         };
 
         setAvailabilityForAllKeyTypes(availabilityMap, productId, availability);
 
-        if (process.env.NODE_ENV === 'development') {
-          console.warn(`[Availability] Error checking ${productId}:`, error);
-        }
+        errors.push({
+          productId,
+          error: rejected.length > 0 ? 'No stores match the store policy' : 'No stores found',
+          code: errorCode,
+        });
+
+        return;
       }
+
+      // Build availability object
+      const availability: ProductAvailability = {
+        productId,
+        inStock: selectedStore.in_stock && (selectedStore.stock_level ?? 0) > 0,
+        availableQuantity: selectedStore.stock_level || 0,
+        storeId: selectedStore.store_id,
+        storeName: selectedStore.store_name,
+        distance: selectedStore.distance,
+        storeSelectionReason,
+        offerType: 'TARGET_PRODUCT', // Target doesn't use offer IDs
+        fromCache: stockLookup?.fromCache,
+        stale: stockLookup?.stale,
+        dataAgeSeconds: stockLookup?.ageSeconds,
+        stores: eligible.map((store) => ({
+          storeId: store.store_id,
+          storeName: store.store_name,
+          distance: store.distance,
+          inStock: store.in_stock && (store.stock_level ?? 0) > 0,
+          availableQuantity: store.stock_level || 0,
+        })),
+        rejectedStores,
+      };
+
+      // Store with multiple key types for flexible lookup (critical for Map.get() to work)
+      setAvailabilityForAllKeyTypes(availabilityMap, productId, availability);
+
+      logger.debug(
+        `${productId}: ${availability.inStock ? 'IN STOCK' : 'OUT OF STOCK'} `
+        + `at ${selectedStore.store_name} (${selectedStore.stock_level} units)`,
+      );
     });
 
+    // Combine store stock with fulfillment options for the requested channel
+    // A product whose details couldn't be fetched reports that lookup's error code
+    if (fulfillmentOptions) {
+      productIds.forEach((productId) => {
+        const availability = getAvailability(availabilityMap, productId);
+        if (availability) {
+          const combined = applyFulfillmentChannel(availability, channel, fulfillmentOptions.options.get(productId));
+          const detailsErrorCode = fulfillmentOptions.errorCodes.get(productId);
+          setAvailabilityForAllKeyTypes(
+            availabilityMap,
+            productId,
+            !combined.inStock && combined.errorCode === undefined && detailsErrorCode !== undefined
+              ? { ...combined, errorCode: detailsErrorCode }
+              : combined,
+          );
+        }
+      });
+    }
+
     return {
       availabilityMap,
       errors,
@@ -166,48 +242,204 @@ export async function checkBatchAvailability(
 // Helper Functions
 // ============================================================================
 
+/**
+ * Fetch fulfillment options (pickup/delivery/shipping) for products
+ * Products whose details can't be fetched are left out (treated as not offering them),
+ * with the lookup's error code
+ *
+ * @param productIds - Product IDs
+ * @returns Fulfillment options by product ID, and error codes of failed lookups
+ */
+async function getFulfillmentOptions(
+  productIds: string[],
+): Promise<{
+    options: Map<string, TargetProductDetails['Fulfillment']>;
+    errorCodes: Map<string, string | number>;
+  }> {
+  const options = new Map<string, TargetProductDetails['Fulfillment']>();
+  const errorCodes = new Map<string, string | number>();
+
+  await Promise.all(productIds.map(async (productId) => {
+    try {
+      const response = await getFullProductByTcin(productId);
+      options.set(productId, response.product?.Fulfillment);
+    } catch (error) {
+      logger.warn(`Could not fetch fulfillment options for ${productId}`, { productId, error });
+      errorCodes.set(productId, error instanceof ApiError ? error.code : 'UNKNOWN_ERROR');
+    }
+  }));
+
+  return { options, errorCodes };
+}
+
+/**
+ * Work out which channels a product qualifies for and its availability for the requested one
+ * For pickup the per-store rows get the same check, since store planning (storeSelection)
+ * builds availability from them
+ *
+ * @param availability - Store-stock availability
+ * @param channel - Requested fulfillment channel
+ * @param fulfillment - Product fulfillment options (undefined if unknown)
+ * @returns Availability for the requested channel, with qualifying channels
+ */
+function applyFulfillmentChannel(
+  availability: ProductAvailability,
+  channel: FulfillmentChannel,
+  fulfillment: TargetProductDetails['Fulfillment'],
+): ProductAvailability {
+  const storeInStock = availability.inStock && availability.availableQuantity > 0;
+  const nearbyInStock = (availability.stores || []).filter((store) => store.inStock);
+
+  const qualifies: Record<FulfillmentChannel, boolean> = {
+    in_store: storeInStock,
+    pickup: storeInStock && !!fulfillment?.pickup,
+    delivery: nearbyInStock.length > 0 && !!fulfillment?.delivery,
+    shipping: !!fulfillment?.shipping,
+  };
+
+  const quantities: Record<FulfillmentChannel, number> = {
+    in_store: availability.availableQuantity,
+    pickup: availability.availableQuantity,
+    delivery: Math.max(0, ...nearbyInStock.map((store) => store.availableQuantity)),
+    shipping: SHIPPING_AVAILABLE_QUANTITY,
+  };
+
+  const stores = channel === 'pickup' && !fulfillment?.pickup
+    ? availability.stores?.map((store) => ({ ...store, inStock: false, availableQuantity: 0 }))
+    : availability.stores;
+
+  return {
+    ...availability,
+    inStock: qualifies[channel],
+    availableQuantity: qualifies[channel] ? quantities[channel] : 0,
+    stores,
+    fulfillmentChannels: (Object.keys(qualifies) as FulfillmentChannel[]).filter((name) => qualifies[name]),
+  };
+}
+
+/**
+ * Store row from RedCircle store stock results
+ */
+interface StoreStockRow {
+  store_id: string;
+  in_stock: boolean;
+  stock_level?: number;
+  store_name: string;
+  distance: number;
+}
+
+/**
+ * Whether a single-store answer from the store-level index is enough for this check
+ * (see lookupStoreStock). Store policies, store planning and other fulfillment channels
+ * look at every store near the ZIP, and the indexed store's distance is from another ZIP
+ *
+ * @param params - Stock check parameters
+ * @returns True if only the requested store matters
+ */
+function canUseStoreIndex(params: StockCheckParams): boolean {
+  const policyInEffect = Object.values(params.storePolicy || {}).some((value) => value !== undefined);
+  return (params.fulfillment || 'in_store') === 'in_store' && !params.compareStores && !policyInEffect;
+}
+
+/**
+ * Split store results into stores the policy allows and stores it rejects
+ *
+ * Checks, in order: deny list, allow list, distance radius, minimum stock. An empty allow
+ * list doesn't filter (same as no list). The minimum stock level only rejects in-stock stores
+ * with too few units - out-of-stock stores stay eligible so selection can still report the
+ * nearest store.
+ *
+ * @param stores - Store stock results (sorted by distance)
+ * @param policy - Effective store policy
+ * @returns Eligible stores (order kept) and rejected stores with reasons
+ */
+function applyStorePolicy(
+  stores: StoreStockRow[],
+  policy: StorePolicy,
+): { eligible: StoreStockRow[]; rejected: RejectedStore[] } {
+  const eligible: StoreStockRow[] = [];
+  const rejected: RejectedStore[] = [];
+
+  stores.forEach((store) => {
+    const stockLevel = store.in_stock ? store.stock_level ?? 0 : 0;
+    let reason: RejectedStore['reason'] | undefined;
+
+    if (policy.denyStoreIds?.includes(store.store_id)) {
+      reason = 'DENIED';
+    } else if (policy.allowStoreIds?.length && !policy.allowStoreIds.includes(store.store_id)) {
+      reason = 'NOT_ALLOWED';
+    } else if (policy.maxDistanceMiles !== undefined && store.distance > policy.maxDistanceMiles) {
+      reason = 'TOO_FAR';
+    } else if (policy.minStockLevel !== undefined && stockLevel > 0 && stockLevel < policy.minStockLevel) {
+      reason = 'BELOW_MIN_STOCK';
+    }
+
+    if (reason) {
+      rejected.push({
+        storeId: store.store_id,
+        storeName: store.store_name,
+        distance: store.distance,
+        reason,
+      });
+    } else {
+      eligible.push(store);
+    }
+  });
+
+  return { eligible, rejected };
+}
+
 /**
  * Select the best store from results based on availability and user preference
  *
  * Priority:
- * 1. User-specified store (if provided and in results)
- * 2. First in-stock store (closest by distance, results are sorted)
- * 3. First store in results (as fallback)
+ * 1. First in-stock store of the preference chain (user-specified store, then preferredStoreIds)
+ * 2. User-specified store (if provided and in results)
+ * 3. First in-stock store (closest by distance, results are sorted)
+ * 4. First store in results (as fallback)
  *
- * @param stores - Array of store stock results
+ * @param stores - Array of store stock results (already filtered by the store policy)
  * @param preferredStoreId - Optional user-specified store ID
- * @returns Selected store or undefined
+ * @param fallbackStoreIds - Optional preferred stores to try, in order, after preferredStoreId
+ * @returns Selected store (undefined if there are no stores) and why it was picked
  */
 function selectBestStore(
-  stores: Array<{
-    store_id: string;
-    in_stock: boolean;
-    stock_level?: number;
-    store_name: string;
-    distance: number;
-  }>,
+  stores: StoreStockRow[],
   preferredStoreId?: string,
-) {
+  fallbackStoreIds: string[] = [],
+): { store?: StoreStockRow; reason?: StoreSelectionReason } {
   if (stores.length === 0) {
-    return undefined;
+    return { store: undefined, reason: undefined };
+  }
+
+  // Walk the preference chain for the first store that has the product
+  const chain = preferredStoreId ? [preferredStoreId, ...fallbackStoreIds] : fallbackStoreIds;
+  for (const chainStoreId of chain) {
+    const chainStore = stores.find((s) => s.store_id === chainStoreId);
+    if (chainStore && chainStore.in_stock && (chainStore.stock_level ?? 0) > 0) {
+      return {
+        store: chainStore,
+        reason: chainStoreId === preferredStoreId ? 'PREFERRED_STORE' : 'PREFERRED_STORE_CHAIN',
+      };
+    }
   }
 
   // If user specified a store, try to find it
   if (preferredStoreId) {
     const userStore = stores.find((s) => s.store_id === preferredStoreId);
     if (userStore) {
-      return userStore;
+      return { store: userStore, reason: 'PREFERRED_STORE' };
     }
   }
 
   // Otherwise, find first in-stock store (closest)
   const inStockStore = stores.find((s) => s.in_stock && (s.stock_level ?? 0) > 0);
   if (inStockStore) {
-    return inStockStore;
+    return { store: inStockStore, reason: 'NEAREST_IN_STOCK' };
   }
 
   // Fallback: return first store (even if out of stock)
-  return stores[0];
+  return { store: stores[0], reason: 'NEAREST_STORE_NONE_IN_STOCK' };
 }
 
 /**
@@ -240,17 +472,22 @@ function setAvailabilityForAllKeyTypes(
  * Follows standardization criteria from specification
  *
  * @param availability - Product availability data
+ * @param requiredQuantity - Units the chosen store must have (default 1)
  * @returns True if product is available and usable
  */
-export function isProductAvailable(availability: ProductAvailability | undefined): boolean {
+export function isProductAvailable(
+  availability: ProductAvailability | undefined,
+  requiredQuantity = 1,
+): boolean {
   if (!availability) {
     return false;
   }
 
   // Target-specific availability criteria:
   // 1. Must be in stock
-  // 2. Must have quantity > 0
-  return availability.inStock && availability.availableQuantity > 0;
+  // 2. Chosen store's stock_level must cover the required quantity
+  return availability.inStock && availability.availableQuantity > 0
+    && availability.availableQuantity >= requiredQuantity;
 }
 
 /**
@@ -278,12 +515,12 @@ export function getAvailability(
 // ============================================================================
 
 /**
- * Log availability check results (development only)
+ * Log availability check results (debug level)
  *
  * @param result - Stock check result
  */
 export function logAvailabilityResults(result: StockCheckResult): void {
-  if (process.env.NODE_ENV !== 'development') {
+  if (!logger.isLevelEnabled('debug')) {
     return;
   }
 
@@ -299,14 +536,10 @@ export function logAvailabilityResults(result: StockCheckResult): void {
     }
   });
 
-  console.log('[Availability Summary]', {
+  logger.debug('Availability summary', {
     total: totalProducts,
     inStock: inStockCount,
     outOfStock: outOfStockCount,
-    errors: result.errors.length,
+    errors: result.errors,
   });
-
-  if (result.errors.length > 0) {
-    console.log('[Availability Errors]', result.errors);
-  }
 }
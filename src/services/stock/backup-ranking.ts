@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Price- and rating-aware backup ordering
+ * @description Reorders each group's backups by price or rating and drops backups priced
+ * too far above their primary, using product details from the product cache
+ * @module services/stock/backup-ranking
+ * @related services/stock/product-selector.ts, services/target/api.ts
+ */
+
+import {
+  BackupGroup,
+  BackupRanking,
+  ProductPricing,
+  RankedBackups,
+  SmartSelectionRequest,
+} from '../../types';
+import { getBulkProducts } from '../target/api';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Backup Ranking');
+
+/**
+ * Ranking used when the request doesn't specify one
+ */
+const DEFAULT_BACKUP_RANKING: BackupRanking = parseRanking(process.env.BACKUP_RANKING_MODE) || 'order';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Rank each group's backups for a request
+ *
+ * - `order`: backups are tried in array order (no product lookups)
+ * - `price`: closest price to the primary first
+ * - `rating`: highest rating first
+ *
+ * With `maxPriceIncreasePercent`, backups priced more than that percentage above
+ * their primary are dropped. Products with unknown prices are kept and ranked after
+ * products with known prices; ties keep array order. The primary always stays first.
+ *
+ * @param request - Smart selection request
+ * @returns Ranked backup groups, pricing data and dropped backups per group
+ *
+ * @example
+ * // Primary $10, backups [$25, $11]
+ * const { backups } = await rankBackups({ ...request, backupRanking: 'price' });
+ * // backups[0].backupIds -> [<$11 TCIN>, <$25 TCIN>]
+ */
+export async function rankBackups(request: SmartSelectionRequest): Promise<RankedBackups> {
+  const ranking = request.backupRanking || DEFAULT_BACKUP_RANKING;
+  const ceiling = request.maxPriceIncreasePercent;
+
+  if (ranking === 'order' && ceiling === undefined) {
+    return { backups: request.backups, pricing: new Map(), priceExcluded: new Map() };
+  }
+
+  const pricing = await getProductPricing(request.backups);
+  const priceExcluded = new Map<string, string[]>();
+
+  const backups = request.backups.map((group) => {
+    const primaryPrice = pricing.get(group.primaryId)?.price;
+
+    // Drop backups over the price ceiling (only when both prices are known)
+    const maxPrice = ceiling !== undefined && primaryPrice !== undefined
+      ? primaryPrice * (1 + ceiling / 100)
+      : undefined;
+    const allowed = group.backupIds.filter((id) => {
+      const price = pricing.get(id)?.price;
+      return maxPrice === undefined || price === undefined || price <= maxPrice;
+    });
+
+    const excluded = group.backupIds.filter((id) => !allowed.includes(id));
+    if (excluded.length > 0) {
+      priceExcluded.set(group.primaryId, excluded);
+    }
+
+    return {
+      ...group,
+      backupIds: sortBackups(allowed, ranking, pricing, primaryPrice),
+    };
+  });
+
+  logger.debug(`Ranked backups by ${ranking}`, {
+    excluded: Object.fromEntries(priceExcluded),
+  });
+
+  return { backups, pricing, priceExcluded };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Look up price and rating for every product in the groups
+ * Products whose details can't be fetched are left out (unknown price/rating)
+ *
+ * @param backups - Backup groups
+ * @returns Map of product ID to pricing
+ */
+async function getProductPricing(backups: BackupGroup[]): Promise<Map<string, ProductPricing>> {
+  const productIds = Array.from(new Set(backups.flatMap((group) => [group.primaryId, ...group.backupIds])));
+  const products = await getBulkProducts(productIds);
+  const pricing = new Map<string, ProductPricing>();
+
+  productIds.forEach((productId) => {
+    const product = products.get(productId)?.Product;
+    if (product) {
+      pricing.set(productId, {
+        price: product.Price?.value,
+        currency: product.Price?.currency,
+        rating: product.Rating,
+      });
+    }
+  });
+
+  return pricing;
+}
+
+/**
+ * Sort backup IDs for a ranking mode (stable, unknown values last)
+ *
+ * @param backupIds - Backup IDs in request order
+ * @param ranking - Ranking mode
+ * @param pricing - Pricing by product ID
+ * @param primaryPrice - Price of the group's primary (undefined if unknown)
+ * @returns Sorted backup IDs
+ */
+function sortBackups(
+  backupIds: string[],
+  ranking: BackupRanking,
+  pricing: Map<string, ProductPricing>,
+  primaryPrice: number | undefined,
+): string[] {
+  const score = (id: string): number | undefined => {
+    const product = pricing.get(id);
+    if (ranking === 'price') {
+      return product?.price !== undefined && primaryPrice !== undefined
+        ? Math.abs(product.price - primaryPrice)
+        : undefined;
+    }
+    if (ranking === 'rating') {
+      return product?.rating !== undefined ? -product.rating : undefined;
+    }
+    return 0;
+  };
+
+  return [...backupIds].sort((a, b) => {
+    const scoreA = score(a);
+    const scoreB = score(b);
+    if (scoreA === undefined || scoreB === undefined) {
+      return (scoreA === undefined ? 1 : 0) - (scoreB === undefined ? 1 : 0);
+    }
+    return scoreA - scoreB;
+  });
+}
+
+/**
+ * Parse a ranking mode name
+ *
+ * @param value - Raw value (env var)
+ * @returns Ranking mode or undefined if not recognized
+ */
+function parseRanking(value: string | undefined): BackupRanking | undefined {
+  return value === 'order' || value === 'price' || value === 'rating' ? value : undefined;
+}
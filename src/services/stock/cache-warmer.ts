@@ -0,0 +1,387 @@
+/**
+ * @fileoverview Scheduled stock cache warming for top short links
+ * @description Keeps tcin+zipCode stock entries for configured short links fresh on a
+ * schedule, without exceeding an hourly RedCircle credit budget
+ * @module services/stock/cache-warmer
+ * @related utils/cache.ts, services/target/api.ts, controllers/admin.ts
+ */
+
+import fs from 'fs';
+import {
+  CacheWarmConfig,
+  CacheWarmItemResult,
+  CacheWarmReport,
+  TargetStoreStockResponse,
+  ApiError,
+} from '../../types';
+import {
+  stockCache,
+  warmCache,
+  getTimestampedValue,
+  generateProductStockCacheKey,
+} from '../../utils/cache';
+import { checkStoreStock } from '../target/api';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Cache Warmer');
+
+// ============================================================================
+// Warming Configuration
+// ============================================================================
+
+/**
+ * Path to the JSON file listing short links, backup groups and ZIP codes to warm
+ */
+const WARM_CONFIG_FILE = process.env.CACHE_WARM_CONFIG_FILE || '';
+
+/**
+ * Interval between scheduled warm runs (defaults to just under the stock cache TTL)
+ */
+const WARM_INTERVAL_SECONDS = parseInt(process.env.CACHE_WARM_INTERVAL_SECONDS || '240', 10);
+
+/**
+ * Maximum RedCircle credits spent on warming per rolling hour
+ */
+const WARM_CREDIT_BUDGET_PER_HOUR = parseInt(
+  process.env.CACHE_WARM_CREDIT_BUDGET_PER_HOUR || '100',
+  10,
+);
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Errors raised before a request is sent to RedCircle (nothing is billed)
+ */
+const UNSENT_ERROR_CODES = new Set<string | number>(['CREDIT_BUDGET_EXHAUSTED', 'CIRCUIT_OPEN']);
+
+// ============================================================================
+// Warming State
+// ============================================================================
+
+let warmConfig: CacheWarmConfig | null = null;
+let warmTimer: NodeJS.Timeout | null = null;
+let runInProgress: Promise<CacheWarmReport> | null = null;
+let lastReport: CacheWarmReport | null = null;
+
+/**
+ * Credits spent (or reserved by calls in flight) on warming, used for the rolling hourly budget
+ */
+const creditLog: Array<{ timestamp: number; credits: number }> = [];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Load the warm config, run a first pass right away and start the warming schedule
+ * Does nothing if CACHE_WARM_CONFIG_FILE is not set
+ */
+export function startCacheWarming(): void {
+  if (!WARM_CONFIG_FILE || warmTimer) {
+    return;
+  }
+
+  try {
+    warmConfig = loadWarmConfig(WARM_CONFIG_FILE);
+  } catch (error) {
+    logger.error('Failed to load warm config', { error: (error as Error).message });
+    return;
+  }
+
+  // First pass at startup, so the cache is warm before the first interval ends (same hourly budget)
+  runCacheWarming('startup').catch((error) => {
+    logger.error('Startup run failed', { error });
+  });
+
+  warmTimer = setInterval(() => {
+    runCacheWarming('schedule').catch((error) => {
+      logger.error('Scheduled run failed', { error });
+    });
+  }, WARM_INTERVAL_SECONDS * 1000);
+  warmTimer.unref();
+
+  logger.info(
+    `Warming ${warmConfig.shortLinks.length} short links across `
+    + `${warmConfig.zipCodes.length} ZIP codes every ${WARM_INTERVAL_SECONDS}s `
+    + `(budget: ${WARM_CREDIT_BUDGET_PER_HOUR} credits/hour)`,
+  );
+}
+
+/**
+ * Stop the warming schedule
+ */
+export function stopCacheWarming(): void {
+  if (warmTimer) {
+    clearInterval(warmTimer);
+    warmTimer = null;
+  }
+}
+
+/**
+ * Run one warming pass over every configured tcin+zipCode pair
+ * If a run is already in progress, its report is returned instead of starting another
+ *
+ * Items whose cache entry is still fresh are skipped (no credits spent). Remaining
+ * items are warmed in config order (primaries before backups) until the hourly
+ * credit budget is used up; the rest are reported as skipped_budget. Every call reserves
+ * its credit before it is sent, and calls refused locally (credit budget, open circuit)
+ * cost nothing.
+ *
+ * @param trigger - What started the run
+ * @returns Warm report with per-item results
+ * @throws ApiError (CACHE_WARMING_NOT_CONFIGURED) if no warm config file is set
+ */
+export async function runCacheWarming(
+  trigger: CacheWarmReport['trigger'],
+): Promise<CacheWarmReport> {
+  if (runInProgress) {
+    return runInProgress;
+  }
+
+  if (!warmConfig) {
+    if (!WARM_CONFIG_FILE) {
+      throw new ApiError(
+        'Cache warming is not configured (CACHE_WARM_CONFIG_FILE not set)',
+        'CACHE_WARMING_NOT_CONFIGURED',
+      );
+    }
+    warmConfig = loadWarmConfig(WARM_CONFIG_FILE);
+  }
+
+  runInProgress = performWarmRun(warmConfig, trigger).finally(() => {
+    runInProgress = null;
+  });
+
+  return runInProgress;
+}
+
+/**
+ * Get the report of the most recent warm run
+ *
+ * @returns Last report or null if no run has completed
+ */
+export function getLastWarmReport(): CacheWarmReport | null {
+  return lastReport;
+}
+
+// ============================================================================
+// Warm Run
+// ============================================================================
+
+/**
+ * Execute a warm run
+ *
+ * @param config - Warm configuration
+ * @param trigger - What started the run
+ * @returns Warm report
+ */
+async function performWarmRun(
+  config: CacheWarmConfig,
+  trigger: CacheWarmReport['trigger'],
+): Promise<CacheWarmReport> {
+  const startedAt = new Date().toISOString();
+  const items = buildWarmItems(config);
+
+  // Skip entries that are still fresh - they don't need credits
+  const freshFlags = await Promise.all(items.map(async ({ zipCode, tcin }) => {
+    const cached = await getTimestampedValue<TargetStoreStockResponse>(
+      stockCache,
+      generateProductStockCacheKey(zipCode, tcin),
+    );
+    return !!cached && !cached.stale;
+  }));
+
+  for (const [index, item] of items.entries()) {
+    if (freshFlags[index]) {
+      item.status = 'fresh';
+    }
+  }
+
+  // Assign remaining budget in config order (1 credit per store_stock request)
+  let budget = getRemainingBudget();
+  const toWarm = items.filter((item) => item.status !== 'fresh');
+  for (const item of toWarm) {
+    if (budget > 0) {
+      budget--;
+    } else {
+      item.status = 'skipped_budget';
+    }
+  }
+
+  // Each call reserves its credit before it is sent, so concurrent calls can't overrun the
+  // hourly budget. The reservation is then set to what the call cost: RedCircle's reported
+  // credits, 1 for a failed call (it may still be billed) or 0 if it was never sent
+  const creditsByItem = new Map<string, number>();
+  const fetchStock = async (tcin: string, zipCode: string): Promise<TargetStoreStockResponse> => {
+    if (getRemainingBudget() <= 0) {
+      throw new Error('Hourly warming credit budget used up');
+    }
+
+    const reservation = { timestamp: Date.now(), credits: 1 };
+    creditLog.push(reservation);
+    try {
+      const stock = await checkStoreStock(tcin, zipCode, undefined, { skipCache: true });
+      reservation.credits = stock.request_info?.credits_used ?? 1;
+      return stock;
+    } catch (error) {
+      if (error instanceof ApiError && UNSENT_ERROR_CODES.has(error.code)) {
+        reservation.credits = 0;
+      }
+      throw error;
+    } finally {
+      creditsByItem.set(`${zipCode}:${tcin}`, reservation.credits);
+    }
+  };
+
+  // Warm per ZIP code through warmCache (requests go through the shared scheduler)
+  const byZip = new Map<string, CacheWarmItemResult[]>();
+  toWarm
+    .filter((item) => item.status !== 'skipped_budget')
+    .forEach((item) => {
+      byZip.set(item.zipCode, [...(byZip.get(item.zipCode) || []), item]);
+    });
+
+  await Promise.all(Array.from(byZip.entries()).map(async ([zipCode, zipItems]) => {
+    const results = await warmCache(zipItems.map((item) => item.tcin), zipCode, fetchStock);
+
+    results.forEach((result, index) => {
+      const item = zipItems[index];
+      const itemCredits = creditsByItem.get(`${item.zipCode}:${item.tcin}`);
+      if (itemCredits === undefined) {
+        // Budget ran out before this item's call could reserve a credit
+        item.status = 'skipped_budget';
+      } else if (result.success) {
+        item.status = 'warmed';
+        item.creditsUsed = itemCredits;
+      } else {
+        item.status = 'failed';
+        item.creditsUsed = itemCredits;
+        item.error = result.error;
+      }
+    });
+  }));
+
+  const creditsUsed = items.reduce((sum, item) => sum + item.creditsUsed, 0);
+
+  const report: CacheWarmReport = {
+    trigger,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    warmed: items.filter((item) => item.status === 'warmed').length,
+    fresh: items.filter((item) => item.status === 'fresh').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    skipped: items.filter((item) => item.status === 'skipped_budget').length,
+    creditsUsed,
+    creditBudgetPerHour: WARM_CREDIT_BUDGET_PER_HOUR,
+    creditBudgetRemaining: getRemainingBudget(),
+    items,
+  };
+
+  lastReport = report;
+
+  logger.info('Run complete', {
+    trigger,
+    warmed: report.warmed,
+    fresh: report.fresh,
+    failed: report.failed,
+    skipped: report.skipped,
+    creditsUsed,
+  });
+
+  return report;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Expand the config into unique tcin+zipCode items
+ * Order: per ZIP code, every primary first, then backups by tier
+ *
+ * @param config - Warm configuration
+ * @returns Warm items (status defaults to failed until processed)
+ */
+function buildWarmItems(config: CacheWarmConfig): CacheWarmItemResult[] {
+  const groups = config.shortLinks.flatMap((link) => link.backups.map((group) => ({
+    shortLink: link.shortLink,
+    ids: [group.primaryId, ...group.backupIds],
+  })));
+  const maxTier = Math.max(0, ...groups.map((group) => group.ids.length));
+  const items = new Map<string, CacheWarmItemResult>();
+
+  config.zipCodes.forEach((zipCode) => {
+    for (let tier = 0; tier < maxTier; tier++) {
+      groups.forEach(({ shortLink, ids }) => {
+        const tcin = ids[tier];
+        if (!tcin) {
+          return;
+        }
+
+        const key = `${zipCode}:${tcin}`;
+        const existing = items.get(key);
+        if (existing) {
+          if (!existing.shortLinks.includes(shortLink)) {
+            existing.shortLinks.push(shortLink);
+          }
+          return;
+        }
+
+        items.set(key, {
+          tcin,
+          zipCode,
+          shortLinks: [shortLink],
+          status: 'failed',
+          creditsUsed: 0,
+        });
+      });
+    }
+  });
+
+  return Array.from(items.values());
+}
+
+/**
+ * Credits left in the rolling one-hour warming budget
+ *
+ * @returns Remaining credits
+ */
+function getRemainingBudget(): number {
+  const windowStart = Date.now() - ONE_HOUR_MS;
+  while (creditLog.length > 0 && creditLog[0].timestamp < windowStart) {
+    creditLog.shift();
+  }
+
+  const spent = creditLog.reduce((sum, entry) => sum + entry.credits, 0);
+  return Math.max(0, WARM_CREDIT_BUDGET_PER_HOUR - spent);
+}
+
+/**
+ * Load and validate the warm config file
+ *
+ * @param filePath - Path to JSON config
+ * @returns Parsed configuration
+ * @throws Error if the file is missing or malformed
+ */
+function loadWarmConfig(filePath: string): CacheWarmConfig {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<CacheWarmConfig>;
+
+  if (!Array.isArray(parsed.zipCodes) || !parsed.zipCodes.every((zip) => typeof zip === 'string')) {
+    throw new Error('Warm config "zipCodes" must be an array of strings');
+  }
+
+  if (!Array.isArray(parsed.shortLinks)) {
+    throw new Error('Warm config "shortLinks" must be an array');
+  }
+
+  parsed.shortLinks.forEach((link, i) => {
+    if (!link || typeof link.shortLink !== 'string' || !Array.isArray(link.backups)) {
+      throw new Error(`Warm config shortLinks[${i}] must have "shortLink" and "backups"`);
+    }
+  });
+
+  return {
+    zipCodes: parsed.zipCodes,
+    shortLinks: parsed.shortLinks,
+  };
+}
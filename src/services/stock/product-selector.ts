@@ -12,9 +12,59 @@ import {
   SelectedProduct,
   BackupProductUsed,
   ProductAvailability,
+  BackupGroup,
+  AvailabilityCheckMode,
+  AvailabilityCheckSummary,
+  CandidateDecision,
+  GroupDecision,
+  GroupFulfillment,
+  RedirectRule,
+  SelectionExplanation,
+  CartUrlType,
+  MultiItemStrategy,
+  StoreSelectionMode,
+  StorePlan,
+  StoreAvailability,
+  StockCheckParams,
+  RejectedStore,
+  RankedBackups,
+  SelectedProductPrice,
+  AutoBackupSource,
+  SubstitutionEvent,
+  AllProductsUnavailableEvent,
+  ApiPerformanceEvent,
 } from '../../types';
 import { checkBatchAvailability, isProductAvailable, getAvailability } from './availability';
-import { generateProductUrl } from '../target/api';
+import { rankBackups } from './backup-ranking';
+import { discoverAutoBackups } from './auto-backups';
+import { generateProductUrl, isStoreStockCached } from '../target/api';
+import { buildMultiItemUrl, getDefaultMultiItemStrategy } from '../target/url-builder';
+import { isCreditBudgetExhausted } from '../target/credit-ledger';
+import { isCircuitOpen } from '../target/circuit-breaker';
+import { resolveStorePolicy } from '../../config/store-policy';
+import { emitAnalyticsEvent } from '../analytics/event-bus';
+import {
+  observeSelectionDuration,
+  recordAllProductsUnavailable,
+  recordBackupUsed,
+} from '../metrics/prometheus';
+import { createLogger } from '../../utils/logger';
+import { withSpan } from '../../utils/tracing';
+import { runWithShortLink } from '../../utils/request-context';
+
+const logger = createLogger('Product Selector');
+
+/**
+ * Where and how availability is checked (everything except the product IDs)
+ */
+type StockCheckLocation = Omit<StockCheckParams, 'productIds'>;
+
+/**
+ * Default availability check mode when the request doesn't specify one
+ */
+const DEFAULT_AVAILABILITY_MODE: AvailabilityCheckMode = process.env.AVAILABILITY_CHECK_MODE === 'lazy'
+  ? 'lazy'
+  : 'eager';
 
 // ============================================================================
 // Main Selection Function
@@ -39,78 +89,288 @@ import { generateProductUrl } from '../target/api';
  *   zipCode: '04457'
  * }, '04457');
  */
-export async function selectAvailableProducts(
+export function selectAvailableProducts(
   request: SmartSelectionRequest,
   zipCode: string,
   storeId?: string,
 ): Promise<SmartSelectionResponse> {
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Product Selector] Starting smart selection');
-    console.log('[Product Selector] Request:', {
-      shortLink: request.shortLink,
-      backupGroups: request.backups.length,
-      zipCode,
-      storeId,
-    });
-  }
+  return withSpan(
+    'selectAvailableProducts',
+    {
+      'app.zip_code': zipCode,
+      'app.store_id': storeId,
+      'app.backup_groups': request.backups.length,
+      'app.fulfillment': request.fulfillment,
+    },
+    () => runSelection(request, zipCode, storeId),
+    (response) => ({
+      'app.substitutions': response.backupProducts.length,
+      'app.all_products_unavailable': response.allProductsUnavailable,
+      'app.cache_only': !!response.cacheOnly,
+      'app.degraded': !!response.degraded,
+      'app.stale_data_used': !!response.staleDataUsed,
+    }),
+  );
+}
+
+/**
+ * Run the selection algorithm for one request (see selectAvailableProducts)
+ *
+ * @param request - Smart selection request
+ * @param zipCode - ZIP code for availability
+ * @param storeId - Optional store ID
+ * @returns Smart selection response
+ */
+async function runSelection(
+  request: SmartSelectionRequest,
+  zipCode: string,
+  storeId?: string,
+): Promise<SmartSelectionResponse> {
+  logger.info('Starting smart selection', {
+    shortLink: request.shortLink,
+    backupGroups: request.backups.length,
+    zipCode,
+    storeId,
+  });
 
-  // Step 1: Extract all product IDs (primary + backups)
-  const allProductIds = extractAllProductIds(request.backups);
+  // Cache-only mode (daily credit budget used up): RedCircle is not called, so products
+  // without cached data count as unavailable and selection falls back to longLink
+  const cacheOnly = isCreditBudgetExhausted();
 
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Product Selector] Checking availability for', allProductIds.length, 'products');
-  }
+  // Degraded mode (RedCircle circuit open): lookups without cached data fail fast, and with
+  // nothing selected the redirect goes to the primary PDP or longLink (see buildRedirectUrl)
+  const circuitOpen = isCircuitOpen();
 
-  // Step 2: Single bulk availability check for ALL products
-  const availabilityResult = await checkBatchAvailability({
-    productIds: allProductIds,
+  // Step 0: Order backups by price/rating and drop overpriced ones (when requested)
+  const ranked = await rankBackups(request);
+  const rankedRequest: SmartSelectionRequest = { ...request, backups: ranked.backups };
+
+  // Step 1-2: Check availability (eager: all products at once, lazy: tier by tier)
+  // Store planning compares every candidate at every store, so it always checks eagerly
+  const storePlanningRequested = !!request.storeSelection && request.storeSelection !== 'nearest';
+  const mode = storePlanningRequested ? 'eager' : request.availabilityMode || DEFAULT_AVAILABILITY_MODE;
+  const location: StockCheckLocation = {
     zipCode,
     storeId,
+    fulfillment: request.fulfillment,
+    storePolicy: resolveStorePolicy(request.storePolicy),
+    compareStores: storePlanningRequested,
+  };
+  const { availabilityMap, summary: availabilityCheck } = mode === 'lazy'
+    ? await checkAvailabilityByTier(rankedRequest.backups, location)
+    : await checkAllAvailability(rankedRequest.backups, location);
+
+  // Step 2b: Propose backups for groups with nothing available (autoBackups)
+  const discovery = request.autoBackups
+    ? await discoverAutoBackups(rankedRequest.backups, availabilityMap, location)
+    : undefined;
+  const selectionRequest = discovery ? { ...rankedRequest, backups: discovery.backups } : rankedRequest;
+
+  // Step 3-6: Select products, build redirect URL and response
+  return buildSelectionResponse(
+    selectionRequest,
+    availabilityMap,
+    availabilityCheck,
+    cacheOnly,
+    circuitOpen,
+    ranked,
+    discovery?.sources,
+  );
+}
+
+/**
+ * Select available products for many requests at once
+ *
+ * Requests are grouped by location (zipCode + storeId), fulfillment channel, store policy and
+ * whether stores are compared (storeSelection). Each group checks the union of its TCINs once,
+ * then the substitution algorithm runs per request against the shared availability data.
+ * Batch requests always use this single check, so `availabilityMode` is not applied.
+ * Credits are attributed to each item's short link; a TCIN shared by several items is charged
+ * to the first item that needs it.
+ *
+ * @param requests - Validated smart selection requests
+ * @returns Settled result per request, in request order (one failure doesn't fail the rest)
+ */
+export async function selectAvailableProductsBatch(
+  requests: SmartSelectionRequest[],
+): Promise<Array<PromiseSettledResult<SmartSelectionResponse>>> {
+  const cacheOnly = isCreditBudgetExhausted();
+  const circuitOpen = isCircuitOpen();
+  const results: Array<PromiseSettledResult<SmartSelectionResponse>> = new Array(requests.length);
+
+  // Rank backups per request first, so each group checks only the backups still in play
+  const rankings = await Promise.all(requests.map((request) => runWithShortLink(
+    request.shortLink,
+    () => rankBackups(request),
+  )));
+  const rankedRequests = requests.map((request, index) => ({ ...request, backups: rankings[index].backups }));
+
+  // Group request indexes by location, fulfillment channel and effective store policy
+  const byLocation = new Map<string, { location: StockCheckLocation; indexes: number[] }>();
+  rankedRequests.forEach((request, index) => {
+    const location: StockCheckLocation = {
+      zipCode: request.zipCode,
+      storeId: request.storeId,
+      fulfillment: request.fulfillment,
+      storePolicy: resolveStorePolicy(request.storePolicy),
+      compareStores: !!request.storeSelection && request.storeSelection !== 'nearest',
+    };
+    const locationKey = JSON.stringify([
+      location.zipCode,
+      location.storeId || '',
+      location.fulfillment || 'in_store',
+      location.storePolicy,
+      location.compareStores,
+    ]);
+    const entry = byLocation.get(locationKey) || { location, indexes: [] };
+    entry.indexes.push(index);
+    byLocation.set(locationKey, entry);
   });
 
-  // Step 3: Perform product selection with substitution
-  const selectionResult = performProductSelection(request.backups, availabilityResult.availabilityMap);
+  await Promise.all(Array.from(byLocation.values()).map(async ({ location, indexes }) => {
+    const { zipCode } = location;
+    const productIds = extractAllProductIds(indexes.flatMap((index) => rankedRequests[index].backups));
+
+    logger.debug(`Batch: checking ${productIds.length} products for ${indexes.length} requests in ${zipCode}`);
 
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Product Selector] Selection result:', {
-      selected: selectionResult.selectedProducts.length,
-      substitutions: selectionResult.backupProductsUsed.length,
-      unavailable: selectionResult.unavailableProducts.length,
+    // Check each TCIN under the short link of the first request that needs it
+    const idsByShortLink = new Map<string, string[]>();
+    const assigned = new Set<string>();
+    indexes.forEach((index) => {
+      const { shortLink, backups } = rankedRequests[index];
+      const ids = extractAllProductIds(backups).filter((id) => !assigned.has(id));
+      ids.forEach((id) => assigned.add(id));
+      idsByShortLink.set(shortLink, [...(idsByShortLink.get(shortLink) || []), ...ids]);
     });
-  }
 
-  // Step 4: Build redirect URL
-  const redirectUrl = buildRedirectUrl(
-    selectionResult,
-    request.longLink,
-    request.customUrl,
-    request.allowPdp,
+    let availabilityMap: Map<string, ProductAvailability>;
+    try {
+      const checks = await Promise.all(Array.from(idsByShortLink.entries())
+        .filter(([, ids]) => ids.length > 0)
+        .map(([shortLink, ids]) => runWithShortLink(
+          shortLink,
+          () => checkBatchAvailability({ productIds: ids, ...location }),
+        )));
+      availabilityMap = new Map(checks.flatMap((check) => Array.from(check.availabilityMap)));
+    } catch (error) {
+      indexes.forEach((index) => {
+        results[index] = { status: 'rejected', reason: error };
+      });
+      return;
+    }
+
+    await Promise.all(indexes.map(async (index) => {
+      const request = rankedRequests[index];
+      try {
+        const availabilityCheck: AvailabilityCheckSummary = {
+          mode: 'eager',
+          productsChecked: extractAllProductIds(request.backups).length,
+          checkRounds: 1,
+          creditsSaved: 0,
+        };
+        const discovery = request.autoBackups
+          ? await runWithShortLink(
+            request.shortLink,
+            () => discoverAutoBackups(request.backups, availabilityMap, location),
+          )
+          : undefined;
+        results[index] = {
+          status: 'fulfilled',
+          value: buildSelectionResponse(
+            discovery ? { ...request, backups: discovery.backups } : request,
+            availabilityMap,
+            availabilityCheck,
+            cacheOnly,
+            circuitOpen,
+            rankings[index],
+            discovery?.sources,
+          ),
+        };
+      } catch (error) {
+        results[index] = { status: 'rejected', reason: error };
+      }
+    }));
+  }));
+
+  return results;
+}
+
+/**
+ * Run the substitution algorithm and build the standardized response
+ *
+ * @param request - Smart selection request
+ * @param availabilityMap - Availability data for the request's products
+ * @param availabilityCheck - Summary of the availability check that was performed
+ * @param cacheOnly - Whether availability came from cache only (credit budget used up)
+ * @param circuitOpen - Whether the RedCircle circuit was open when the request started
+ * @param ranked - Backup ranking result (request.backups is already ranked)
+ * @param autoSources - Discovered backups by primaryId (request.backups already includes them)
+ * @returns Smart selection response
+ */
+function buildSelectionResponse(
+  request: SmartSelectionRequest,
+  availabilityMap: Map<string, ProductAvailability>,
+  availabilityCheck: AvailabilityCheckSummary,
+  cacheOnly: boolean,
+  circuitOpen: boolean,
+  ranked?: RankedBackups,
+  autoSources?: Map<string, Map<string, AutoBackupSource>>,
+): SmartSelectionResponse {
+  // Degraded if the circuit was open, opened while availability was being checked, or refused
+  // any of this request's lookups (e.g. while another lookup held the half-open probe)
+  const degraded = circuitOpen || isCircuitOpen() || wasRefusedByCircuit(request.backups, availabilityMap);
+
+  // Step 3: Plan stores (single/fewest store mode), then select products with substitution
+  // Delivery and shipping don't depend on which store the shopper visits, so no planning
+  const storeBound = !request.fulfillment || request.fulfillment === 'in_store' || request.fulfillment === 'pickup';
+  const storeSelection = storeBound ? request.storeSelection || 'nearest' : 'nearest';
+  const storePlanning = storeSelection !== 'nearest'
+    ? planStores(request.backups, availabilityMap, storeSelection, request.storeId)
+    : undefined;
+  const selectionResult = performProductSelection(
+    request.backups,
+    availabilityMap,
+    storePlanning?.groupAvailability,
+    autoSources,
   );
 
-  // Step 5: Log analytics events
-  logAnalyticsEvents(request, selectionResult);
+  logger.info('Selection result', {
+    selected: selectionResult.selectedProducts.length,
+    substitutions: selectionResult.backupProductsUsed.length,
+    unavailable: selectionResult.unavailableProducts.length,
+  });
+
+  // Step 4: Build redirect URL
+  const redirect = buildRedirectUrl(selectionResult, request, degraded);
+
+  // Step 5: Log analytics events (explain requests are diagnostic, not shopper traffic)
+  if (!request.explain) {
+    logAnalyticsEvents(request, selectionResult, degraded);
+  }
 
   // Step 6: Return standardized response
   const allProductsUnavailable = selectionResult.selectedProducts.length === 0;
-  const finalCartUrlType = determineCartUrlType(selectionResult, request.customUrl, request.allowPdp);
+  const finalCartUrlType = redirect.cartUrlType;
 
   // Target URLs don't include store IDs in any format (PDP, longLink, or custom)
   // Unlike Walmart which can embed ?store=1234, Target product pages have no store parameter
-  // Therefore, storeIdAttached is always undefined to accurately reflect what's in the URL
-  const actualStoreIdAttached = undefined;
+  // storeIdAttached is only set when store planning put every covered group in one store,
+  // so the shopper knows where to pick everything up
+  const plannedStores = storePlanning?.storePlan.stores || [];
+  const actualStoreIdAttached = plannedStores.length === 1 ? plannedStores[0].storeId : undefined;
 
   // Extract requested options or use defaults
   const requestedMode = request.cartUrlOptions?.mode || 'auto';
 
   // Determine if we fell back to longLink/customUrl instead of generating a Target URL
   // This happens when:
-  // - All products unavailable
-  // - Multiple products selected (Target doesn't support multi-item cart URLs)
+  // - All products unavailable (unless degraded mode sent the shopper to the primary PDP)
+  // - Multiple products selected and no multi-item URL could be built
   // - allowPdp=false (even with single product)
-  const didFallback = finalCartUrlType !== 'pdp';
+  const didFallback = finalCartUrlType === 'longLink' || finalCartUrlType === 'custom';
 
   return {
-    redirectUrl,
+    redirectUrl: redirect.url,
     backupsUsed: selectionResult.backupProductsUsed.length > 0,
     backupProducts: selectionResult.backupProductsUsed,
     allProductsUnavailable,
@@ -119,8 +379,224 @@ export async function selectAvailableProducts(
     cartOptionsSummary: {
       mode: requestedMode, // What the client requested
       includeStoreId: 'never', // Target never includes store IDs (what was actually done)
-      fallbackApplied: didFallback, // True if we used longLink/customUrl instead of PDP
+      fallbackApplied: didFallback, // True if we used longLink/customUrl instead of a Target URL
       finalType: finalCartUrlType, // What we actually generated
+      multiItemStrategy: redirect.multiItemStrategy,
+    },
+    fulfillment: selectionResult.fulfillment,
+    availabilityCheck,
+    ...summarizeStaleness(request.backups, availabilityMap),
+    cacheOnly: cacheOnly || undefined,
+    degraded: degraded || undefined,
+    explain: request.explain ? buildExplanation(selectionResult, redirect, ranked?.priceExcluded) : undefined,
+    storePlan: storePlanning?.storePlan,
+    rejectedStores: summarizeRejectedStores(request.backups, availabilityMap),
+    prices: ranked && ranked.pricing.size > 0 ? summarizePrices(selectionResult, ranked) : undefined,
+  };
+}
+
+/**
+ * Report the price of each chosen product, relative to its group's primary
+ *
+ * @param selectionResult - Selection result
+ * @param ranked - Backup ranking result with pricing data
+ * @returns One entry per allocated product, in group order
+ */
+function summarizePrices(
+  selectionResult: ProductSelectionResult,
+  ranked: RankedBackups,
+): SelectedProductPrice[] {
+  return selectionResult.fulfillment.flatMap(({ primaryId, allocations }) => {
+    const primaryPrice = ranked.pricing.get(primaryId)?.price;
+
+    return allocations.map(({ productId }) => {
+      const { price, currency } = ranked.pricing.get(productId) || {};
+      const priceChangePercent = productId !== primaryId && price !== undefined && primaryPrice
+        ? Math.round(((price - primaryPrice) / primaryPrice) * 1000) / 10
+        : undefined;
+
+      return {
+        productId,
+        primaryId,
+        price,
+        currency,
+        priceChangePercent,
+      };
+    });
+  });
+}
+
+/**
+ * Collect stores the store policy rejected for any of the request's checked products
+ *
+ * @param backups - Backup groups of the request
+ * @param availabilityMap - Availability data (may include other requests' products in a batch)
+ * @returns One entry per store and reason with the affected products, or undefined if none
+ */
+function summarizeRejectedStores(
+  backups: BackupGroup[],
+  availabilityMap: Map<string, ProductAvailability>,
+): SmartSelectionResponse['rejectedStores'] {
+  const byStore = new Map<string, RejectedStore & { productIds: string[] }>();
+
+  extractAllProductIds(backups).forEach((productId) => {
+    getAvailability(availabilityMap, productId)?.rejectedStores?.forEach((store) => {
+      const key = `${store.storeId}:${store.reason}`;
+      const entry = byStore.get(key) || { ...store, productIds: [] };
+      entry.productIds.push(productId);
+      byStore.set(key, entry);
+    });
+  });
+
+  return byStore.size > 0 ? Array.from(byStore.values()) : undefined;
+}
+
+/**
+ * Summarize whether any of the request's availability data was served stale (stale-while-revalidate)
+ *
+ * @param backups - Backup groups of the request
+ * @param availabilityMap - Availability data (may include other requests' products in a batch)
+ * @returns Stale flag and age of the oldest stale entry
+ */
+function summarizeStaleness(
+  backups: BackupGroup[],
+  availabilityMap: Map<string, ProductAvailability>,
+): Pick<SmartSelectionResponse, 'staleDataUsed' | 'staleDataAgeSeconds'> {
+  let staleDataAgeSeconds: number | undefined;
+
+  extractAllProductIds(backups).forEach((productId) => {
+    const availability = getAvailability(availabilityMap, productId);
+    if (availability?.stale) {
+      staleDataAgeSeconds = Math.max(staleDataAgeSeconds ?? 0, availability.dataAgeSeconds ?? 0);
+    }
+  });
+
+  return {
+    staleDataUsed: staleDataAgeSeconds !== undefined,
+    staleDataAgeSeconds,
+  };
+}
+
+/**
+ * Whether the circuit breaker refused any of the request's availability lookups
+ *
+ * @param backups - Backup groups of the request
+ * @param availabilityMap - Availability data (may include other requests' products in a batch)
+ * @returns True if a product's stock or details lookup failed with CIRCUIT_OPEN
+ */
+function wasRefusedByCircuit(
+  backups: BackupGroup[],
+  availabilityMap: Map<string, ProductAvailability>,
+): boolean {
+  return extractAllProductIds(backups).some((productId) => (
+    getAvailability(availabilityMap, productId)?.errorCode === 'CIRCUIT_OPEN'
+  ));
+}
+
+// ============================================================================
+// Availability Check Strategies
+// ============================================================================
+
+/**
+ * Eager mode: single bulk availability check for ALL products (primary + backups)
+ *
+ * @param backups - Backup groups
+ * @param location - ZIP code, optional store ID, fulfillment channel and store policy
+ * @returns Availability map and check summary
+ */
+async function checkAllAvailability(
+  backups: BackupGroup[],
+  location: StockCheckLocation,
+): Promise<{ availabilityMap: Map<string, ProductAvailability>; summary: AvailabilityCheckSummary }> {
+  const allProductIds = extractAllProductIds(backups);
+
+  logger.debug(`Checking availability for ${allProductIds.length} products`);
+
+  const availabilityResult = await checkBatchAvailability({
+    productIds: allProductIds,
+    ...location,
+  });
+
+  return {
+    availabilityMap: availabilityResult.availabilityMap,
+    summary: {
+      mode: 'eager',
+      productsChecked: allProductIds.length,
+      checkRounds: 1,
+      creditsSaved: 0,
+    },
+  };
+}
+
+/**
+ * Lazy mode: check availability tier by tier
+ *
+ * Round 0 checks every primary. Each following round checks only the next
+ * backup (backupIds[round - 1]) of groups that still have no usable product,
+ * batched across groups. Because backups are tried in order, the resulting
+ * selection is identical to eager mode while skipping backups we never need.
+ *
+ * @param backups - Backup groups
+ * @param location - ZIP code, optional store ID, fulfillment channel and store policy
+ * @returns Availability map and check summary
+ */
+async function checkAvailabilityByTier(
+  backups: BackupGroup[],
+  location: StockCheckLocation,
+): Promise<{ availabilityMap: Map<string, ProductAvailability>; summary: AvailabilityCheckSummary }> {
+  const availabilityMap = new Map<string, ProductAvailability>();
+  const checkedIds = new Set<string>();
+  let checkRounds = 0;
+
+  // Check one tier, then move on to the next with the groups still short
+  const checkTier = async (tier: number, pendingGroups: BackupGroup[]): Promise<void> => {
+    if (pendingGroups.length === 0) {
+      return;
+    }
+
+    const candidateFor = (group: BackupGroup) => (tier === 0 ? group.primaryId : group.backupIds[tier - 1]);
+
+    // Collect this tier's candidates that haven't been checked in an earlier round
+    const tierIds = Array.from(new Set(
+      pendingGroups
+        .map(candidateFor)
+        .filter((id) => !checkedIds.has(id)),
+    ));
+
+    if (tierIds.length > 0) {
+      logger.debug(`Tier ${tier}: checking ${tierIds.length} products`);
+
+      const tierResult = await checkBatchAvailability({
+        productIds: tierIds,
+        ...location,
+      });
+
+      tierResult.availabilityMap.forEach((availability, key) => availabilityMap.set(key, availability));
+      tierIds.forEach((id) => checkedIds.add(id));
+      checkRounds++;
+    }
+
+    // Keep groups whose quantity isn't covered yet and that still have backups left
+    await checkTier(tier + 1, pendingGroups.filter((group) => (
+      allocateGroup(group, availabilityMap).shortfall > 0
+      && tier < group.backupIds.length
+    )));
+  };
+
+  await checkTier(0, backups);
+
+  // Credits saved: RedCircle calls eager mode would have made for the skipped products
+  // (a skipped product whose stock is cached would not have cost a credit)
+  const skippedIds = extractAllProductIds(backups).filter((id) => !checkedIds.has(id));
+  const skippedCached = await Promise.all(skippedIds.map((id) => isStoreStockCached(id, location.zipCode)));
+
+  return {
+    availabilityMap,
+    summary: {
+      mode: 'lazy',
+      productsChecked: checkedIds.size,
+      checkRounds,
+      creditsSaved: skippedCached.filter((cached) => !cached).length,
     },
   };
 }
@@ -154,165 +630,545 @@ function extractAllProductIds(
  *
  * Algorithm:
  * 1. For each primary product:
- *    a. Check if primary is available AND usable
+ *    a. Check if primary is available AND its store covers the group quantity
  *    b. If NO → Check backups in order [0, 1, 2...]
- *    c. Use first available backup
+ *    c. Use first backup whose store covers the quantity
+ *       (allowSplit: take units from the primary and backups in order until covered)
  *    d. If none available → Skip product
  *
  * @param backups - Backup groups
  * @param availabilityMap - Availability data for all products
- * @returns Selection result with substitutions
+ * @param groupAvailability - Per-group availability overrides (store planning), in group order
+ * @param autoSources - Discovered backups by primaryId (flagged in substitutions)
+ * @returns Selection result with substitutions and per-group fulfillment
  */
 function performProductSelection(
-  backups: Array<{ primaryId: string; backupIds: string[] }>,
+  backups: BackupGroup[],
   availabilityMap: Map<string, ProductAvailability>,
+  groupAvailability?: Array<Map<string, ProductAvailability>>,
+  autoSources?: Map<string, Map<string, AutoBackupSource>>,
 ): ProductSelectionResult {
   const selectedProducts: SelectedProduct[] = [];
   const backupProductsUsed: BackupProductUsed[] = [];
   const unavailableProducts: string[] = [];
+  const groupDecisions: GroupDecision[] = [];
+  const fulfillment: GroupFulfillment[] = [];
 
   // Process each backup group
-  backups.forEach((group) => {
+  backups.forEach((group, index) => {
+    const groupMap = groupAvailability?.[index] || availabilityMap;
     const { primaryId, backupIds } = group;
+    const requestedQuantity = group.quantity ?? 1;
+    const primaryAvailability = getAvailability(groupMap, primaryId);
+    const groupAutoSources = autoSources?.get(primaryId);
+    const { allocations, shortfall } = allocateGroup(group, groupMap);
 
-    // Check primary availability
-    const primaryAvailability = getAvailability(availabilityMap, primaryId);
-    const primaryUsable = isProductAvailable(primaryAvailability);
+    selectedProducts.push(...allocations);
+    fulfillment.push({
+      primaryId,
+      requestedQuantity,
+      fulfilledQuantity: requestedQuantity - shortfall,
+      shortfall,
+      allocations: allocations.map(({ productId, quantity }) => ({ productId, quantity: quantity ?? 1 })),
+    });
+
+    // Record substitutions (backups replacing or supplementing the primary)
+    allocations
+      .filter((allocation) => allocation.productId !== primaryId)
+      .forEach((allocation) => {
+        backupProductsUsed.push({
+          originalId: primaryId,
+          replacementId: allocation.productId,
+          reason: getSubstitutionReason(primaryAvailability),
+          autoSource: groupAutoSources?.get(allocation.productId),
+        });
 
-    if (primaryUsable && primaryAvailability) {
-      // Primary is available - use it
-      selectedProducts.push({
-        productId: primaryId,
-        availability: primaryAvailability,
+        logger.debug(`Substituted ${primaryId} → ${allocation.productId} (qty ${allocation.quantity})`);
       });
 
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`[Selector] Using primary: ${primaryId}`);
-      }
-      return; // Continue to next group
+    let outcome: GroupDecision['outcome'] = 'BACKUP_USED';
+    if (allocations.length === 0) {
+      outcome = 'ALL_UNAVAILABLE';
+    } else if (allocations.length > 1) {
+      outcome = 'SPLIT';
+    } else if (allocations[0].productId === primaryId) {
+      outcome = 'PRIMARY_USED';
     }
 
-    // Primary unavailable - check backups in order
-    let replaced = false;
+    groupDecisions.push({
+      primaryId,
+      outcome,
+      selectedId: allocations[0]?.productId,
+      candidates: [primaryId, ...backupIds].map((id, i) => describeCandidate(
+        id,
+        getCandidateRole(id, i, groupAutoSources),
+        getAvailability(groupMap, id),
+        group.allowSplit ? 1 : requestedQuantity,
+      )),
+    });
 
-    for (const backupId of backupIds) {
-      const backupAvailability = getAvailability(availabilityMap, backupId);
-      const backupUsable = isProductAvailable(backupAvailability);
+    if (outcome === 'PRIMARY_USED') {
+      logger.debug(`Using primary: ${primaryId}`);
+    } else if (outcome === 'ALL_UNAVAILABLE') {
+      logger.debug(`All options unavailable for ${primaryId}`);
+    }
+    if (shortfall > 0) {
+      logger.debug(`Short ${shortfall} of ${requestedQuantity} units for ${primaryId}`);
+    }
 
-      if (backupUsable && backupAvailability) {
-        // Found available backup - use it
-        selectedProducts.push({
-          productId: backupId,
-          availability: backupAvailability,
-        });
+    // No products available (primary or backups)
+    if (allocations.length === 0) {
+      unavailableProducts.push(primaryId);
+    }
+  });
 
-        // Record substitution
-        backupProductsUsed.push({
-          originalId: primaryId,
-          replacementId: backupId,
-          reason: primaryAvailability ? 'OUT_OF_STOCK' : 'PRIMARY_UNUSABLE',
-        });
+  return {
+    selectedProducts,
+    backupProductsUsed,
+    unavailableProducts,
+    groupDecisions,
+    fulfillment,
+  };
+}
 
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`[Selector] Substituted ${primaryId} → ${backupId}`);
-        }
+/**
+ * Allocate a group's quantity to its primary and backups
+ *
+ * Without allowSplit the whole quantity goes to the first candidate (primary, then
+ * backups in order) whose chosen store has enough stock. With allowSplit, units are
+ * taken from each in-stock candidate in order until the quantity is covered.
+ * Candidates without availability data (not checked yet) are skipped.
+ *
+ * @param group - Backup group
+ * @param availabilityMap - Availability data
+ * @returns Allocated products with quantities and the uncovered quantity
+ */
+function allocateGroup(
+  group: BackupGroup,
+  availabilityMap: Map<string, ProductAvailability>,
+): { allocations: SelectedProduct[]; shortfall: number } {
+  const requiredQuantity = group.quantity ?? 1;
+  const candidates = [group.primaryId, ...group.backupIds];
 
-        replaced = true;
-        break; // Stop checking remaining backups (short-circuit)
+  if (!group.allowSplit) {
+    for (const productId of candidates) {
+      const availability = getAvailability(availabilityMap, productId);
+      if (availability && isProductAvailable(availability, requiredQuantity)) {
+        return {
+          allocations: [{ productId, quantity: requiredQuantity, availability }],
+          shortfall: 0,
+        };
       }
     }
 
-    // No products available (primary or backups)
-    if (!replaced) {
-      unavailableProducts.push(primaryId);
+    return { allocations: [], shortfall: requiredQuantity };
+  }
+
+  const allocations: SelectedProduct[] = [];
+  let remaining = requiredQuantity;
+
+  for (const productId of candidates) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const availability = getAvailability(availabilityMap, productId);
+    if (availability && isProductAvailable(availability)) {
+      const quantity = Math.min(remaining, availability.availableQuantity);
+      allocations.push({ productId, quantity, availability });
+      remaining -= quantity;
+    }
+  }
 
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`[Selector] All options unavailable for ${primaryId}`);
+  return { allocations, shortfall: remaining };
+}
+
+/**
+ * Why a backup was used instead of (or alongside) the primary
+ *
+ * @param primaryAvailability - Primary's availability data
+ * @returns Substitution reason
+ */
+function getSubstitutionReason(
+  primaryAvailability: ProductAvailability | undefined,
+): BackupProductUsed['reason'] {
+  if (!primaryAvailability) {
+    return 'PRIMARY_UNUSABLE';
+  }
+
+  return isProductAvailable(primaryAvailability) ? 'INSUFFICIENT_QUANTITY' : 'OUT_OF_STOCK';
+}
+
+/**
+ * Role of a candidate within its group
+ *
+ * @param productId - Candidate TCIN
+ * @param position - Position in [primaryId, ...backupIds]
+ * @param autoSources - Backups discovered for the group (autoBackups)
+ * @returns Candidate role
+ */
+function getCandidateRole(
+  productId: string,
+  position: number,
+  autoSources?: Map<string, AutoBackupSource>,
+): CandidateDecision['role'] {
+  if (position === 0) {
+    return 'primary';
+  }
+  return autoSources?.has(productId) ? 'auto' : 'backup';
+}
+
+/**
+ * Describe a candidate product for the explain trace
+ *
+ * @param productId - Candidate TCIN
+ * @param role - Primary or backup
+ * @param availability - Availability data (undefined if never checked)
+ * @param requiredQuantity - Units the candidate must cover to be usable
+ * @returns Candidate decision
+ */
+function describeCandidate(
+  productId: string,
+  role: CandidateDecision['role'],
+  availability: ProductAvailability | undefined,
+  requiredQuantity: number,
+): CandidateDecision {
+  if (!availability) {
+    return {
+      productId,
+      role,
+      checked: false,
+      usable: false,
+    };
+  }
+
+  return {
+    productId,
+    role,
+    checked: true,
+    usable: isProductAvailable(availability, requiredQuantity),
+    inStock: availability.inStock,
+    stockLevel: availability.availableQuantity,
+    storeId: availability.storeId,
+    storeName: availability.storeName,
+    distance: availability.distance,
+    storeSelectionReason: availability.storeSelectionReason,
+    fromCache: availability.fromCache ?? false,
+    stale: availability.stale,
+    dataAgeSeconds: availability.dataAgeSeconds,
+    errorCode: availability.errorCode,
+    fulfillmentChannels: availability.fulfillmentChannels,
+  };
+}
+
+// ============================================================================
+// Store Coherence
+// ============================================================================
+
+/**
+ * Plan which store(s) fill the selection (single/fewest store mode)
+ *
+ * Candidate stores are every store in any product's stock results. A group counts as
+ * covered by a store when its full quantity can be allocated from that store's stock
+ * (primary first, then backups). Stores are ranked by groups covered, then primaries
+ * used, then the request's storeId, then distance.
+ * - single: the best store; groups it can't cover are still evaluated at that store
+ * - fewest: repeatedly add the best store for the groups left until none adds coverage;
+ *   groups no store can cover fall back to each product's nearest store
+ *
+ * @param backups - Backup groups
+ * @param availabilityMap - Availability data (with per-store rows)
+ * @param mode - single or fewest
+ * @param preferredStoreId - Optional store ID from the request (tie-break)
+ * @returns Per-group availability maps (in group order) and the plan summary
+ */
+function planStores(
+  backups: BackupGroup[],
+  availabilityMap: Map<string, ProductAvailability>,
+  mode: Exclude<StoreSelectionMode, 'nearest'>,
+  preferredStoreId?: string,
+): { groupAvailability: Array<Map<string, ProductAvailability>>; storePlan: StorePlan } {
+  const productIds = extractAllProductIds(backups);
+
+  // Collect candidate stores and each store's view of product availability
+  const storeInfo = new Map<string, StoreAvailability>();
+  productIds.forEach((productId) => {
+    getAvailability(availabilityMap, productId)?.stores?.forEach((store) => {
+      if (!storeInfo.has(store.storeId)) {
+        storeInfo.set(store.storeId, store);
       }
+    });
+  });
+
+  const storeMaps = new Map<string, Map<string, ProductAvailability>>();
+  storeInfo.forEach((_store, storeId) => {
+    storeMaps.set(storeId, buildStoreAvailabilityMap(productIds, availabilityMap, storeId));
+  });
+
+  const candidateMaps = new Map(storeMaps);
+  const assignedStore: Array<string | undefined> = new Array(backups.length);
+  const stores: StorePlan['stores'] = [];
+  let remaining = backups.map((_group, index) => index);
+
+  while (remaining.length > 0) {
+    const best = pickBestStore(backups, remaining, candidateMaps, storeInfo, preferredStoreId);
+    if (!best || best.covered.length === 0) {
+      break;
+    }
+
+    const covered = new Set(best.covered);
+    covered.forEach((index) => {
+      assignedStore[index] = best.storeId;
+    });
+    candidateMaps.delete(best.storeId);
+
+    const info = storeInfo.get(best.storeId);
+    stores.push({
+      storeId: best.storeId,
+      storeName: info?.storeName,
+      distance: info?.distance,
+      groupsCovered: best.covered.map((index) => backups[index].primaryId),
+    });
+
+    remaining = remaining.filter((index) => !covered.has(index));
+    if (mode === 'single') {
+      break;
     }
+  }
+
+  // Uncovered groups: single mode stays at the chosen store, fewest uses nearest stores
+  const fallbackMap = mode === 'single' && stores.length > 0
+    ? storeMaps.get(stores[0].storeId) as Map<string, ProductAvailability>
+    : availabilityMap;
+
+  logger.debug(`Store plan (${mode})`, {
+    stores: stores.map((store) => ({
+      storeId: store.storeId,
+      groups: store.groupsCovered.length,
+    })),
   });
 
   return {
-    selectedProducts,
-    backupProductsUsed,
-    unavailableProducts,
+    groupAvailability: backups.map((_group, index) => {
+      const storeId = assignedStore[index];
+      return (storeId && storeMaps.get(storeId)) || fallbackMap;
+    }),
+    storePlan: {
+      mode,
+      stores,
+      uncoveredGroups: remaining.map((index) => backups[index].primaryId),
+    },
   };
 }
 
+/**
+ * Pick the store that covers the most of the given groups
+ *
+ * @param backups - Backup groups
+ * @param groupIndexes - Groups still to cover
+ * @param storeMaps - Availability per candidate store
+ * @param storeInfo - Store details (distance)
+ * @param preferredStoreId - Optional store ID from the request
+ * @returns Best store and the group indexes it covers, or undefined if there are no candidates
+ */
+function pickBestStore(
+  backups: BackupGroup[],
+  groupIndexes: number[],
+  storeMaps: Map<string, Map<string, ProductAvailability>>,
+  storeInfo: Map<string, StoreAvailability>,
+  preferredStoreId?: string,
+): { storeId: string; covered: number[] } | undefined {
+  const ranked = Array.from(storeMaps.entries()).map(([storeId, storeMap]) => {
+    const covered: number[] = [];
+    let primariesUsed = 0;
+
+    groupIndexes.forEach((index) => {
+      const { allocations, shortfall } = allocateGroup(backups[index], storeMap);
+      if (shortfall === 0) {
+        covered.push(index);
+        if (allocations.some((allocation) => allocation.productId === backups[index].primaryId)) {
+          primariesUsed++;
+        }
+      }
+    });
+
+    return {
+      storeId,
+      covered,
+      primariesUsed,
+      preferred: storeId === preferredStoreId,
+      distance: storeInfo.get(storeId)?.distance ?? Infinity,
+    };
+  });
+
+  ranked.sort((a, b) => (
+    b.covered.length - a.covered.length
+    || b.primariesUsed - a.primariesUsed
+    || Number(b.preferred) - Number(a.preferred)
+    || a.distance - b.distance
+  ));
+
+  return ranked[0];
+}
+
+/**
+ * Build the availability map as seen from one store
+ * Checked products that the store doesn't list are out of stock there
+ *
+ * @param productIds - Products to include
+ * @param availabilityMap - Availability data (with per-store rows)
+ * @param storeId - Store ID
+ * @returns Availability map for that store
+ */
+function buildStoreAvailabilityMap(
+  productIds: string[],
+  availabilityMap: Map<string, ProductAvailability>,
+  storeId: string,
+): Map<string, ProductAvailability> {
+  const storeMap = new Map<string, ProductAvailability>();
+
+  productIds.forEach((productId) => {
+    const availability = getAvailability(availabilityMap, productId);
+    if (!availability) {
+      return; // Never checked
+    }
+
+    const store = availability.stores?.find((row) => row.storeId === storeId);
+    storeMap.set(productId, {
+      ...availability,
+      inStock: store?.inStock ?? false,
+      availableQuantity: store?.availableQuantity ?? 0,
+      storeId,
+      storeName: store?.storeName,
+      distance: store?.distance,
+      storeSelectionReason: 'STORE_PLAN',
+      errorCode: store ? undefined : availability.errorCode || 'NOT_AT_STORE',
+    });
+  });
+
+  return storeMap;
+}
+
 // ============================================================================
 // URL Generation
 // ============================================================================
 
+/**
+ * Redirect URL with the rule that chose it and the resulting cart URL type
+ */
+interface RedirectDecision {
+  url: string;
+  rule: RedirectRule;
+  cartUrlType: CartUrlType;
+  multiItemStrategy?: MultiItemStrategy;
+}
+
 /**
  * Build redirect URL based on selected products
  *
  * Target-specific logic:
  * - Single product: Direct to product page (if allowPdp)
- * - Multiple products: Use customUrl or longLink (Target doesn't support cart URLs)
- * - No products: Use customUrl or longLink
+ * - Multiple products: Multi-item URL from the configured strategy (search page or
+ *   template), falling back to customUrl or longLink if the strategy is `none`
+ * - No products: Use customUrl or longLink; in degraded mode a single-group link goes to its
+ *   primary's product page instead (stock is unknown, not out)
+ *
+ * `cartUrlOptions.mode` items/offers/auto all use the multi-item strategy; Target has no
+ * offer IDs, so offers are treated as items.
  *
  * @param selectionResult - Product selection result
- * @param longLink - Original long link (fallback)
- * @param customUrl - Custom fallback URL
- * @param allowPdp - Allow product detail page redirect
- * @returns Redirect URL
+ * @param request - Smart selection request (longLink, customUrl, allowPdp, cartUrlOptions)
+ * @param degraded - Whether RedCircle was unavailable (circuit open)
+ * @returns Redirect URL, the rule that chose it and the resulting cart URL type
  */
 function buildRedirectUrl(
   selectionResult: ProductSelectionResult,
-  longLink: string,
-  customUrl?: string,
-  allowPdp?: boolean,
-): string {
+  request: SmartSelectionRequest,
+  degraded: boolean,
+): RedirectDecision {
   const { selectedProducts } = selectionResult;
+  const { longLink, customUrl, allowPdp } = request;
+  const fallback = {
+    url: customUrl || longLink,
+    cartUrlType: (customUrl ? 'custom' : 'longLink') as CartUrlType,
+  };
 
   // No products available - use fallback
   if (selectedProducts.length === 0) {
-    return customUrl || longLink;
+    // RedCircle unreachable and nothing cached - the primary may well be in stock
+    if (degraded && request.backups.length === 1 && allowPdp !== false) {
+      const { primaryId } = request.backups[0];
+      return { url: generateProductUrl(primaryId), rule: 'DEGRADED_PRIMARY_PDP', cartUrlType: 'pdp' };
+    }
+    return { ...fallback, rule: 'NO_PRODUCTS_AVAILABLE' };
   }
 
   // Single product and allowPdp - direct to product page
   if (selectedProducts.length === 1 && allowPdp !== false) {
     const tcin = selectedProducts[0].productId;
-    return generateProductUrl(tcin);
+    return { url: generateProductUrl(tcin), rule: 'SINGLE_PRODUCT_PDP', cartUrlType: 'pdp' };
   }
 
-  // Multiple products or allowPdp=false - Target doesn't support multi-product cart URLs
-  // Use custom URL if provided, otherwise fall back to long link
+  // Multiple products - Target doesn't support multi-product cart URLs, so build the
+  // closest multi-item destination (search page or configured template)
   if (selectedProducts.length > 1) {
-    if (process.env.NODE_ENV === 'development') {
-      console.log(
-        '[Product Selector] Multiple products selected, but Target does not support cart URLs. Using fallback.',
-      );
+    const multiItemStrategy = request.cartUrlOptions?.multiItemStrategy || getDefaultMultiItemStrategy();
+    const multiItemUrl = buildMultiItemUrl(selectedProducts, multiItemStrategy, {
+      shortLink: request.shortLink,
+    });
+
+    if (multiItemUrl) {
+      return {
+        url: multiItemUrl.url,
+        rule: 'MULTI_ITEM_URL',
+        cartUrlType: multiItemUrl.strategy,
+        multiItemStrategy,
+      };
     }
-    return customUrl || longLink;
+
+    logger.debug('Multiple products selected, but no multi-item URL was built. Using fallback.');
+    return { ...fallback, rule: 'MULTIPLE_PRODUCTS', multiItemStrategy };
   }
 
-  // Default fallback
-  return customUrl || longLink;
+  // Default fallback (single product with allowPdp=false)
+  return { ...fallback, rule: 'PDP_NOT_ALLOWED' };
 }
 
 /**
- * Determine cart URL type for response
+ * Build the explain-mode decision trace
  *
- * @param selectionResult - Selection result
- * @param customUrl - Custom URL
- * @param allowPdp - Allow PDP
- * @returns Cart URL type
+ * @param selectionResult - Selection result (with per-group decisions)
+ * @param redirect - Redirect URL, rule and cart URL type from buildRedirectUrl
+ * @param priceExcluded - Backups dropped by the price ceiling, by primaryId
+ * @returns Selection explanation
  */
-function determineCartUrlType(
+function buildExplanation(
   selectionResult: ProductSelectionResult,
-  customUrl?: string,
-  allowPdp?: boolean,
-): 'pdp' | 'longLink' | 'custom' {
-  if (selectionResult.selectedProducts.length === 0) {
-    return customUrl ? 'custom' : 'longLink';
-  }
-
-  if (selectionResult.selectedProducts.length === 1 && allowPdp !== false) {
-    return 'pdp';
-  }
+  redirect: RedirectDecision,
+  priceExcluded?: Map<string, string[]>,
+): SelectionExplanation {
+  const reasons: Record<RedirectRule, string> = {
+    NO_PRODUCTS_AVAILABLE: 'No primary or backup product was in stock',
+    SINGLE_PRODUCT_PDP: 'Exactly one product selected and allowPdp is not false',
+    PDP_NOT_ALLOWED: 'One product selected but allowPdp is false',
+    MULTI_ITEM_URL: `More than one product selected; built a multi-item URL with the "${redirect.multiItemStrategy}" `
+      + 'strategy',
+    MULTIPLE_PRODUCTS: `More than one product selected; the "${redirect.multiItemStrategy}" multi-item strategy `
+      + 'produced no URL',
+    DEGRADED_PRIMARY_PDP: 'RedCircle circuit open and no cached availability; sent to the primary product page',
+  };
 
-  return customUrl ? 'custom' : 'longLink';
+  return {
+    groups: selectionResult.groupDecisions.map((decision) => ({
+      ...decision,
+      priceExcludedIds: priceExcluded?.get(decision.primaryId),
+    })),
+    redirect: {
+      rule: redirect.rule,
+      target: redirect.cartUrlType,
+      reason: reasons[redirect.rule],
+    },
+  };
 }
 
 // ============================================================================
@@ -324,10 +1180,12 @@ function determineCartUrlType(
  *
  * @param request - Original request
  * @param selectionResult - Selection result
+ * @param degraded - Whether RedCircle was unavailable (circuit open)
  */
 function logAnalyticsEvents(
   request: SmartSelectionRequest,
   selectionResult: ProductSelectionResult,
+  degraded: boolean,
 ): void {
   // Log substitution events
   selectionResult.backupProductsUsed.forEach((substitution) => {
@@ -336,13 +1194,14 @@ function logAnalyticsEvents(
       originalId: substitution.originalId,
       replacementId: substitution.replacementId,
       reason: substitution.reason,
+      autoSource: substitution.autoSource,
       zipCode: request.zipCode,
       storeId: request.storeId,
     });
   });
 
-  // Log all products unavailable event
-  if (selectionResult.selectedProducts.length === 0) {
+  // Log all products unavailable event (not in degraded mode: stock is unknown, not out)
+  if (selectionResult.selectedProducts.length === 0 && !degraded) {
     logAllProductsUnavailableEvent({
       shortLink: request.shortLink,
       primaryProductIds: request.backups.map((b) => b.primaryId),
@@ -357,24 +1216,17 @@ function logAnalyticsEvents(
  *
  * @param data - Substitution event data
  */
-function logSubstitutionEvent(data: {
-  shortLink: string;
-  originalId: string;
-  replacementId: string;
-  reason: string;
-  zipCode: string;
-  storeId?: string;
-}): void {
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Analytics] Product Substitution:', {
-      event: 'product_substitution',
-      timestamp: new Date().toISOString(),
-      ...data,
-    });
-  }
+function logSubstitutionEvent(data: Omit<SubstitutionEvent, 'type' | 'timestamp'>): void {
+  const event: SubstitutionEvent = {
+    type: 'product_substitution',
+    timestamp: new Date().toISOString(),
+    ...data,
+  };
 
-  // In production, send to analytics service (e.g., Google Analytics, Mixpanel)
-  // Example: analytics.track('product_substitution', data);
+  logger.debug('Product substitution', { event });
+
+  recordBackupUsed(event.reason);
+  emitAnalyticsEvent(event);
 }
 
 /**
@@ -382,22 +1234,17 @@ function logSubstitutionEvent(data: {
  *
  * @param data - Unavailable event data
  */
-function logAllProductsUnavailableEvent(data: {
-  shortLink: string;
-  primaryProductIds: string[];
-  zipCode: string;
-  fallbackUrl: string;
-}): void {
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Analytics] All Products Unavailable:', {
-      event: 'all_products_unavailable',
-      timestamp: new Date().toISOString(),
-      ...data,
-    });
-  }
+function logAllProductsUnavailableEvent(data: Omit<AllProductsUnavailableEvent, 'type' | 'timestamp'>): void {
+  const event: AllProductsUnavailableEvent = {
+    type: 'all_products_unavailable',
+    timestamp: new Date().toISOString(),
+    ...data,
+  };
+
+  logger.debug('All products unavailable', { event });
 
-  // In production, send to analytics service
-  // Example: analytics.track('all_products_unavailable', data);
+  recordAllProductsUnavailable();
+  emitAnalyticsEvent(event);
 }
 
 /**
@@ -405,21 +1252,15 @@ function logAllProductsUnavailableEvent(data: {
  *
  * @param data - Performance data
  */
-export function logApiPerformance(data: {
-  endpoint: string;
-  durationMs: number;
-  cacheHit: boolean;
-  productsChecked: number;
-  substitutions: number;
-}): void {
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Analytics] API Performance:', {
-      event: 'api_call',
-      timestamp: new Date().toISOString(),
-      ...data,
-    });
-  }
+export function logApiPerformance(data: Omit<ApiPerformanceEvent, 'type' | 'timestamp'>): void {
+  const event: ApiPerformanceEvent = {
+    type: 'api_call',
+    timestamp: new Date().toISOString(),
+    ...data,
+  };
+
+  logger.debug('API performance', { event });
 
-  // In production, send to monitoring service (e.g., DataDog, New Relic)
-  // Example: monitoring.recordMetric('api_call', data);
+  observeSelectionDuration(event.endpoint, event.durationMs);
+  emitAnalyticsEvent(event);
 }
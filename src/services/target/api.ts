@@ -6,6 +6,7 @@
  */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import { Span } from '@opentelemetry/api';
 import {
   TargetStoreStockResponse,
   TargetProductResponse,
@@ -13,6 +14,10 @@ import {
   TargetSearchResponse,
   ApiError,
   ApiRequestOptions,
+  UpstreamStatus,
+  StoreStockLookup,
+  FailedStoreStockLookup,
+  IndexedStoreStock,
 } from '../../types';
 import {
   productCache,
@@ -21,7 +26,25 @@ import {
   setCachedValue,
   generateProductCacheKey,
   generateProductStockCacheKey,
+  generateStoreStockCacheKey,
+  getTimestampedValue,
+  setTimestampedValue,
+  STOCK_CACHE_TTL,
 } from '../../utils/cache';
+import { scheduleRequest } from './scheduler';
+import { recordCredits, isCreditBudgetExhausted, getCreditBudgetResetAt } from './credit-ledger';
+import {
+  acquireCircuitPermit,
+  recordCircuitSuccess,
+  recordCircuitFailure,
+  isCircuitOpen,
+  getCircuitStatus,
+} from './circuit-breaker';
+import { observeUpstreamLatency, recordUpstreamError } from '../metrics/prometheus';
+import { createLogger } from '../../utils/logger';
+import { withSpan } from '../../utils/tracing';
+
+const logger = createLogger('Target API');
 
 // ============================================================================
 // API Configuration
@@ -31,10 +54,21 @@ const API_KEY = process.env.TARGET_API_KEY || '';
 const BASE_URL = process.env.TARGET_API_BASE_URL || 'https://api.redcircleapi.com/request';
 const DEFAULT_TIMEOUT = 10000; // 10 seconds
 
+/**
+ * Retry configuration for transient RedCircle failures
+ * (network errors, timeouts, 5xx responses, 429 rate limits)
+ */
+const RETRY_ATTEMPTS = parseInt(process.env.TARGET_API_RETRY_ATTEMPTS || '2', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.TARGET_API_RETRY_BASE_DELAY_MS || '250', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env.TARGET_API_RETRY_MAX_DELAY_MS || '4000', 10);
+
+/**
+ * Overall deadline for a single logical request, including all retries
+ */
+const REQUEST_DEADLINE_MS = parseInt(process.env.TARGET_API_DEADLINE_MS || '20000', 10);
+
 if (!API_KEY && process.env.NODE_ENV !== 'test') {
-  console.warn(
-    '[Target API] WARNING: TARGET_API_KEY not set in environment variables',
-  );
+  logger.warn('TARGET_API_KEY not set in environment variables');
 }
 
 /**
@@ -105,6 +139,361 @@ function handleApiError(error: unknown, context?: string): ApiError {
   });
 }
 
+// ============================================================================
+// Request Execution
+// ============================================================================
+
+/**
+ * Outcome of the latest RedCircle calls, so the readiness check can rely on real
+ * traffic instead of spending credits on probes
+ */
+const upstreamStatus: UpstreamStatus = {};
+
+/**
+ * Check whether an ApiError represents a transient failure worth retrying
+ * Retries network errors/timeouts, 5xx responses and rate limits
+ *
+ * @param error - ApiError from handleApiError
+ * @returns True if the request should be retried
+ */
+function isRetryableError(error: ApiError): boolean {
+  if (error.code === 'NETWORK_ERROR' || error.code === 'RATE_LIMIT_EXCEEDED') {
+    return true;
+  }
+
+  return typeof error.code === 'number' && error.code >= 500;
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ * Supports both delta-seconds and HTTP-date formats
+ *
+ * @param retryAfter - Raw Retry-After header value
+ * @returns Delay in milliseconds, or undefined if missing/invalid
+ */
+function parseRetryAfter(retryAfter: unknown): number | undefined {
+  if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(retryAfter));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute delay before the next retry attempt
+ * Honors Retry-After when present, otherwise uses full-jitter exponential backoff
+ *
+ * @param attempt - Zero-based retry number
+ * @param error - Error from the failed attempt
+ * @returns Delay in milliseconds
+ */
+function getRetryDelay(attempt: number, error: ApiError): number {
+  const retryAfterMs = parseRetryAfter(error.details?.retryAfter);
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Sleep for the given number of milliseconds
+ *
+ * @param ms - Delay in milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Execute a RedCircle API request with retries and an overall deadline
+ * Shared by every client function so retry behavior stays consistent
+ *
+ * @param params - Query parameters (api_key is added automatically)
+ * @param context - Error context (e.g., TCIN, search term)
+ * @param options - Request options
+ * @returns Response body
+ * @throws ApiError once retries are exhausted, the error is not retryable,
+ *         or the deadline would be exceeded
+ * @throws ApiError (CREDIT_BUDGET_EXHAUSTED) in cache-only mode
+ * @throws ApiError (CIRCUIT_OPEN) while the circuit breaker refuses calls
+ * @throws ApiError (DEADLINE_EXCEEDED) if the deadline passed while the attempt was queued
+ */
+function executeRequest<T>(
+  params: Record<string, string>,
+  context: string,
+  options?: ApiRequestOptions,
+): Promise<T> {
+  return withSpan(
+    `redcircle ${params.type}`,
+    {
+      'redcircle.type': params.type,
+      'app.tcin': params.tcin,
+      'app.zip_code': params.store_stock_zipcode,
+    },
+    (span) => executeWithRetries<T>(params, context, span, options),
+  );
+}
+
+/**
+ * Retry limits for one logical request
+ */
+interface RetryPlan {
+  maxRetries: number;
+  deadline: number; // Epoch ms
+  perAttemptTimeout: number;
+}
+
+/**
+ * Request attempts for executeRequest, recording attempts and credits on its span
+ *
+ * @param params - Query parameters
+ * @param context - Error context
+ * @param span - Span of the logical request
+ * @param options - Request options
+ * @returns Response body
+ */
+async function executeWithRetries<T>(
+  params: Record<string, string>,
+  context: string,
+  span: Span,
+  options?: ApiRequestOptions,
+): Promise<T> {
+  // Cache-only mode: daily credit budget used up, never call RedCircle
+  if (isCreditBudgetExhausted()) {
+    recordUpstreamError(params.type, 'CREDIT_BUDGET_EXHAUSTED');
+    throw new ApiError(
+      'Daily RedCircle credit budget exhausted (cache-only mode)',
+      'CREDIT_BUDGET_EXHAUSTED',
+      { context, retryAt: getCreditBudgetResetAt() },
+    );
+  }
+
+  return attemptRequest<T>(params, context, span, {
+    maxRetries: options?.retryAttempts ?? RETRY_ATTEMPTS,
+    deadline: Date.now() + (options?.deadlineMs ?? REQUEST_DEADLINE_MS),
+    perAttemptTimeout: options?.timeout || DEFAULT_TIMEOUT,
+  }, 0);
+}
+
+/**
+ * Make one attempt, then retry (by calling itself) after a backoff delay if the
+ * error is transient and the retry budget and deadline allow it
+ *
+ * @param params - Query parameters
+ * @param context - Error context
+ * @param span - Span of the logical request
+ * @param plan - Retry limits
+ * @param attempt - Zero-based attempt number
+ * @returns Response body
+ */
+async function attemptRequest<T>(
+  params: Record<string, string>,
+  context: string,
+  span: Span,
+  plan: RetryPlan,
+  attempt: number,
+): Promise<T> {
+  // Circuit open: RedCircle is failing, fail fast instead of waiting out the timeout
+  if (!acquireCircuitPermit()) {
+    recordUpstreamError(params.type, 'CIRCUIT_OPEN');
+    throw new ApiError(
+      'RedCircle circuit open, request not sent',
+      'CIRCUIT_OPEN',
+      { context, retryAt: getCircuitStatus().retryAt, attempts: attempt },
+    );
+  }
+
+  span.setAttribute('redcircle.attempts', attempt + 1);
+  let apiError: ApiError;
+  try {
+    // Every attempt goes through the global scheduler so retries also respect
+    // the concurrency cap and rate limit. Time spent queued counts against the deadline:
+    // an attempt dequeued after it fails without being sent (it would cost a credit for
+    // a result nobody waits for)
+    const response = await scheduleRequest(() => {
+      if (plan.deadline - Date.now() <= 0) {
+        return Promise.reject(new ApiError(
+          'Deadline passed while queued, request not sent',
+          'DEADLINE_EXCEEDED',
+          { context, attempts: attempt },
+        ));
+      }
+
+      const startedAt = Date.now();
+      return axiosInstance.get<T>('', {
+        params: { api_key: API_KEY, ...params },
+        timeout: Math.max(1, Math.min(plan.perAttemptTimeout, plan.deadline - Date.now())),
+      }).finally(() => observeUpstreamLatency(params.type, Date.now() - startedAt));
+    });
+
+    // Record credits per endpoint, client and short link
+    const { request_info: requestInfo } = (response.data || {}) as {
+      request_info?: { credits_used?: number; credits_remaining?: number };
+    };
+    recordCredits(params.type, requestInfo);
+    upstreamStatus.lastSuccessAt = Date.now();
+    recordCircuitSuccess();
+    span.setAttribute('app.credits_used', requestInfo?.credits_used ?? 1);
+
+    return response.data;
+  } catch (error) {
+    // Never sent: says nothing about RedCircle's health, and there's no time left to retry
+    if (error instanceof ApiError && error.code === 'DEADLINE_EXCEEDED') {
+      recordUpstreamError(params.type, error.code);
+      throw error;
+    }
+    apiError = handleApiError(error, context);
+  }
+
+  apiError.details = { ...apiError.details, attempts: attempt + 1 };
+  recordUpstreamError(params.type, apiError.code);
+  recordUpstreamOutcome(apiError);
+
+  if (attempt >= plan.maxRetries || !isRetryableError(apiError) || isCircuitOpen()) {
+    throw apiError;
+  }
+
+  const retryDelay = getRetryDelay(attempt, apiError);
+  if (Date.now() + retryDelay >= plan.deadline) {
+    throw apiError;
+  }
+
+  span.addEvent('retry', {
+    'error.code': String(apiError.code),
+    'redcircle.attempt': attempt + 1,
+    'redcircle.retry_delay_ms': retryDelay,
+  });
+  logger.warn(`${context}: ${apiError.code} on attempt ${attempt + 1}, retrying in ${retryDelay}ms`, {
+    code: apiError.code,
+    attempt: attempt + 1,
+    retryDelayMs: retryDelay,
+  });
+
+  await delay(retryDelay);
+  return attemptRequest<T>(params, context, span, plan, attempt + 1);
+}
+
+/**
+ * Get the outcome of the latest RedCircle calls
+ *
+ * @returns Last success/failure times and the last error code
+ */
+export function getUpstreamStatus(): UpstreamStatus {
+  return { ...upstreamStatus };
+}
+
+/**
+ * Record a failed attempt in the upstream status and the circuit breaker
+ * "Product not found" is a valid RedCircle answer, so it counts as a success.
+ * Only transient failures count against the circuit; other errors mean RedCircle answered
+ *
+ * @param error - ApiError from the attempt
+ */
+function recordUpstreamOutcome(error: ApiError): void {
+  if (error.code === 'PRODUCT_NOT_FOUND') {
+    upstreamStatus.lastSuccessAt = Date.now();
+  } else {
+    upstreamStatus.lastFailureAt = Date.now();
+    upstreamStatus.lastErrorCode = error.code;
+  }
+
+  if (isRetryableError(error)) {
+    recordCircuitFailure();
+  } else {
+    recordCircuitSuccess();
+  }
+}
+
+// ============================================================================
+// In-Flight Request Coalescing
+// ============================================================================
+
+/**
+ * Request types tracked by the coalescing counters
+ */
+type CoalescedRequestType = 'store_stock' | 'product' | 'gtin' | 'search';
+
+/**
+ * Pending upstream requests keyed by cache key (single-flight)
+ */
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+/**
+ * Coalescing counters per request type
+ */
+const coalescingStats: Record<CoalescedRequestType, { started: number; coalesced: number }> = {
+  store_stock: { started: 0, coalesced: 0 },
+  product: { started: 0, coalesced: 0 },
+  gtin: { started: 0, coalesced: 0 },
+  search: { started: 0, coalesced: 0 },
+};
+
+/**
+ * Share one pending upstream request between concurrent callers with the same cache key
+ * The entry is removed once the request settles, so later callers go through the cache
+ *
+ * @param type - Request type (for counters)
+ * @param key - Cache key identifying the request
+ * @param fetcher - Function performing the upstream request
+ * @returns Shared request result
+ */
+function coalesceRequest<T>(
+  type: CoalescedRequestType,
+  key: string,
+  fetcher: () => Promise<T>,
+): Promise<T> {
+  const pending = inFlightRequests.get(key);
+  if (pending) {
+    coalescingStats[type].coalesced++;
+
+    logger.debug(`Coalesced request for ${key}`);
+    return pending as Promise<T>;
+  }
+
+  coalescingStats[type].started++;
+  const request = fetcher().finally(() => {
+    inFlightRequests.delete(key);
+  });
+  inFlightRequests.set(key, request);
+
+  return request;
+}
+
+/**
+ * Get in-flight request coalescing statistics
+ *
+ * @returns Pending request count and per-type started/coalesced counters
+ */
+export function getCoalescingStats() {
+  const totals = Object.values(coalescingStats).reduce(
+    (sum, { started, coalesced }) => ({
+      started: sum.started + started,
+      coalesced: sum.coalesced + coalesced,
+    }),
+    { started: 0, coalesced: 0 },
+  );
+
+  return {
+    pending: inFlightRequests.size,
+    ...totals,
+    byType: coalescingStats,
+  };
+}
+
 // ============================================================================
 // Store Stock API
 // ============================================================================
@@ -115,126 +504,331 @@ function handleApiError(error: unknown, context?: string): ApiError {
  *
  * @param tcin - Target TCIN (8-digit product ID)
  * @param zipCode - ZIP code for location-based availability
- * @param storeId - DEPRECATED: Not used by API. Store filtering done client-side
+ * @param storeId - Optional preferred store. Not sent to the API (store filtering is
+ *                  done client-side), but used to answer from the store-level cache index
  * @param options - Request options
  * @returns Store stock response with up to 20 stores within 50 mile radius
- * @throws ApiError if request fails
+ * @throws ApiError if request fails after retries
  *
  * @example
  * const stock = await checkStoreStock('78025470', '04457');
  * const closestStore = stock.store_stock_results?.[0];
  * console.log(closestStore?.in_stock); // true/false
  *
- * @note The storeId parameter is kept for backwards compatibility but is not
- *       sent to the RedCircle API as it's not supported. Store filtering must
- *       be done client-side on the returned results.
+ * @note The storeId parameter is not sent to the RedCircle API as it's not
+ *       supported. Store filtering must be done client-side on the returned results.
  */
 export async function checkStoreStock(
   tcin: string,
   zipCode: string,
-  _storeId?: string,
+  storeId?: string,
   options?: ApiRequestOptions,
 ): Promise<TargetStoreStockResponse> {
+  const lookup = await lookupStoreStock(tcin, zipCode, storeId, options);
+  return lookup.stock;
+}
+
+/**
+ * Check store stock for a single TCIN and report where the data came from
+ *
+ * Stale-while-revalidate: entries older than the soft TTL (CACHE_TTL_SECONDS)
+ * but younger than the hard TTL (STOCK_CACHE_HARD_TTL_SECONDS) are returned
+ * immediately while a background request refreshes the cache.
+ *
+ * Lookup order:
+ * 1. ZIP-level entry (tcin + zipCode)
+ * 2. Store-level entry (tcin + storeId), when a preferred store is given and it was
+ *    already returned in stock for another ZIP. The response then contains only that
+ *    store, with its distance from the other ZIP - callers that filter or compare
+ *    stores must not pass storeId.
+ * 3. RedCircle request
+ *
+ * @param tcin - Target TCIN (8-digit product ID)
+ * @param zipCode - ZIP code for location-based availability
+ * @param storeId - Optional preferred store (used for the store-level cache lookup)
+ * @param options - Request options
+ * @returns Stock response with cache hit/staleness metadata
+ * @throws ApiError if request fails after retries
+ */
+export function lookupStoreStock(
+  tcin: string,
+  zipCode: string,
+  storeId?: string,
+  options?: ApiRequestOptions,
+): Promise<StoreStockLookup> {
+  return withSpan(
+    'checkStoreStock',
+    { 'app.tcin': tcin, 'app.zip_code': zipCode, 'app.store_id': storeId },
+    () => findStoreStock(tcin, zipCode, storeId, options),
+    (lookup) => ({
+      'app.cache_hit': lookup.fromCache,
+      'app.cache_source': lookup.cacheSource,
+      'app.cache_stale': lookup.stale,
+      'app.cache_age_seconds': lookup.ageSeconds,
+    }),
+  );
+}
+
+/**
+ * Look up store stock in the cache, falling back to RedCircle (see lookupStoreStock)
+ *
+ * @param tcin - Target TCIN
+ * @param zipCode - ZIP code
+ * @param storeId - Optional preferred store
+ * @param options - Request options
+ * @returns Stock response with cache hit/staleness metadata
+ */
+async function findStoreStock(
+  tcin: string,
+  zipCode: string,
+  storeId?: string,
+  options?: ApiRequestOptions,
+): Promise<StoreStockLookup> {
   // Check cache first (unless explicitly skipped)
   // Note: We don't include storeId in cache key since API doesn't filter by store
   // All requests for same tcin+zipcode return the same store list
+  const cacheKey = generateProductStockCacheKey(zipCode, tcin);
   if (!options?.skipCache) {
-    const cacheKey = generateProductStockCacheKey(zipCode, tcin);
-    const cached = getCachedValue<TargetStoreStockResponse>(
+    const cached = await getTimestampedValue<TargetStoreStockResponse>(
       stockCache,
       cacheKey,
     );
     if (cached) {
-      return cached;
+      if (cached.stale) {
+        refreshStoreStockInBackground(tcin, zipCode, cacheKey, options);
+      }
+
+      return {
+        stock: cached.data,
+        fromCache: true,
+        cacheSource: 'zip',
+        stale: cached.stale,
+        ageSeconds: cached.ageSeconds,
+      };
+    }
+
+    if (storeId) {
+      const storeLookup = await lookupIndexedStoreStock(tcin, storeId, options);
+      if (storeLookup) {
+        return storeLookup;
+      }
     }
   }
 
-  try {
-    // _storeId parameter is kept for backwards compatibility but not used
-    // RedCircle API doesn't support store filtering - returns all stores within 50 miles
+  const stock = await requestStoreStock(tcin, zipCode, cacheKey, options);
+  return {
+    stock,
+    fromCache: false,
+    stale: false,
+    ageSeconds: 0,
+  };
+}
 
+/**
+ * Fetch store stock from RedCircle and cache it
+ * Concurrent callers for the same tcin+zipcode share one upstream request
+ *
+ * @param tcin - Target TCIN
+ * @param zipCode - ZIP code for location
+ * @param cacheKey - Stock cache key
+ * @param options - Request options
+ * @returns Store stock response
+ */
+function requestStoreStock(
+  tcin: string,
+  zipCode: string,
+  cacheKey: string,
+  options?: ApiRequestOptions,
+): Promise<TargetStoreStockResponse> {
+  return coalesceRequest('store_stock', cacheKey, async () => {
+    // Note: store_id is NOT supported by RedCircle store_stock API
+    // The API returns all stores within 50 miles of the zipcode
+    // Store filtering must be done client-side after receiving results
     const params: Record<string, string> = {
-      api_key: API_KEY,
       type: 'store_stock',
       tcin,
       store_stock_zipcode: zipCode,
     };
 
-    // Note: store_id is NOT supported by RedCircle store_stock API
-    // The API returns all stores within 50 miles of the zipcode
-    // Store filtering must be done client-side after receiving results
-
-    if (process.env.NODE_ENV === 'development') {
-      // Redact API key for security - never log credentials
-      const paramsForLogging = { ...params, api_key: '[REDACTED]' };
-      const url = `${BASE_URL}?${new URLSearchParams(
-        paramsForLogging,
-      ).toString()}`;
-      console.log(`[Target API] Checking stock for TCIN ${tcin} in ${zipCode}`);
-      console.log(`[Target API] URL: ${url}`);
-    }
+    // API key is added by executeRequest - never log credentials
+    logger.debug(`Checking stock for TCIN ${tcin} in ${zipCode}`, {
+      tcin,
+      zipCode,
+      url: `${BASE_URL}?${new URLSearchParams(params).toString()}`,
+    });
 
-    const response = await axiosInstance.get<TargetStoreStockResponse>('', {
+    const data = await executeRequest<TargetStoreStockResponse>(
       params,
-      timeout: options?.timeout || DEFAULT_TIMEOUT,
-    });
+      `TCIN ${tcin}`,
+      options,
+    );
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(
-        `[Target API Response] TCIN ${tcin} - RAW RESPONSE:`,
-        JSON.stringify(response.data, null, 2),
-      );
-    }
+    logger.debug(`Received stock for TCIN ${tcin}`, {
+      tcin,
+      zipCode,
+      stores: data.store_stock_results?.length ?? 0,
+      inStockStores: data.store_stock_results?.filter((store) => store.in_stock).length ?? 0,
+    });
 
     // Cache the result (without storeId since API returns same data regardless)
-    const cacheKey = generateProductStockCacheKey(zipCode, tcin);
-    setCachedValue(stockCache, cacheKey, response.data);
+    // Entries turn stale after the soft TTL and are evicted after the hard TTL
+    await Promise.all([
+      setTimestampedValue(stockCache, cacheKey, data, STOCK_CACHE_TTL),
+      indexStoreStockRows(tcin, zipCode, data),
+    ]);
 
-    return response.data;
-  } catch (error) {
-    throw handleApiError(error, `TCIN ${tcin}`);
+    return data;
+  });
+}
+
+/**
+ * Index every store row of a store_stock response by (tcin, store_id)
+ *
+ * @param tcin - Target TCIN
+ * @param zipCode - ZIP code the response was requested for
+ * @param data - Store stock response
+ */
+async function indexStoreStockRows(
+  tcin: string,
+  zipCode: string,
+  data: TargetStoreStockResponse,
+): Promise<void> {
+  const rows = data.store_stock_results || [];
+
+  await Promise.all(rows.map((store) => {
+    const entry: IndexedStoreStock = { tcin, zipCode, store };
+    return setTimestampedValue(
+      stockCache,
+      generateStoreStockCacheKey(tcin, store.store_id),
+      entry,
+      STOCK_CACHE_TTL,
+    );
+  }));
+}
+
+/**
+ * Answer a stock lookup from the store-level index
+ * Builds a single-store response; distance is relative to the ZIP that returned the row.
+ * Only an in-stock row answers: when the store is out of stock the caller needs the ZIP's
+ * other stores to fall back to
+ *
+ * @param tcin - Target TCIN
+ * @param storeId - Preferred store ID
+ * @param options - Request options (used for background refresh)
+ * @returns Stock lookup or undefined if the store hasn't been seen in stock for this TCIN
+ */
+async function lookupIndexedStoreStock(
+  tcin: string,
+  storeId: string,
+  options?: ApiRequestOptions,
+): Promise<StoreStockLookup | undefined> {
+  const indexed = await getTimestampedValue<IndexedStoreStock>(
+    stockCache,
+    generateStoreStockCacheKey(tcin, storeId),
+  );
+  if (!indexed || !indexed.data.store.in_stock || (indexed.data.store.stock_level ?? 0) <= 0) {
+    return undefined;
+  }
+
+  const { zipCode: sourceZipCode, store } = indexed.data;
+
+  if (indexed.stale) {
+    refreshStoreStockInBackground(
+      tcin,
+      sourceZipCode,
+      generateProductStockCacheKey(sourceZipCode, tcin),
+      options,
+    );
   }
+
+  return {
+    stock: {
+      store_stock_results: [store],
+      request_parameters: {
+        type: 'store_stock',
+        tcin,
+        store_stock_zipcode: sourceZipCode,
+      },
+    },
+    fromCache: true,
+    cacheSource: 'store',
+    stale: indexed.stale,
+    ageSeconds: indexed.ageSeconds,
+  };
+}
+
+/**
+ * Refresh a stale stock entry without blocking the caller
+ * Failures are ignored - the stale entry stays until its hard TTL. The refresh keeps the
+ * caller's request context, so its credits count against the triggering client's quota
+ *
+ * @param tcin - Target TCIN
+ * @param zipCode - ZIP code for location
+ * @param cacheKey - Stock cache key
+ * @param options - Request options
+ */
+function refreshStoreStockInBackground(
+  tcin: string,
+  zipCode: string,
+  cacheKey: string,
+  options?: ApiRequestOptions,
+): void {
+  requestStoreStock(tcin, zipCode, cacheKey, options).catch((error) => {
+    logger.warn(`Background refresh failed for TCIN ${tcin}`, { tcin, error });
+  });
+}
+
+/**
+ * Whether store stock for a TCIN and ZIP code is cached (fresh or stale)
+ * A lookup for it would not call RedCircle
+ *
+ * @param tcin - Target TCIN
+ * @param zipCode - ZIP code
+ * @returns True if cached
+ */
+export function isStoreStockCached(tcin: string, zipCode: string): Promise<boolean> {
+  return stockCache.has(generateProductStockCacheKey(zipCode, tcin));
 }
 
 /**
  * Check store stock for multiple TCINs concurrently
- * Target API doesn't support bulk requests, so we use Promise.all for concurrency
+ * Target API doesn't support bulk requests, so we use Promise.all for concurrency.
+ * Upstream calls are queued by the global scheduler (see services/target/scheduler.ts),
+ * so large batches wait for a slot instead of bursting past RedCircle rate limits.
  *
  * @param tcins - Array of TCINs to check
  * @param zipCode - ZIP code for location
- * @param storeId - Optional store ID
+ * @param storeId - Optional preferred store ID (used for the store-level cache lookup,
+ *                  see lookupStoreStock)
  * @param options - Request options
- * @returns Map of TCIN to stock response
+ * @returns Map of TCIN to stock lookup (stock response plus cache metadata), or the error code
+ *          of a failed lookup (e.g. CIRCUIT_OPEN)
  *
  * @example
  * const stocks = await checkBulkStoreStock(['12345', '67890'], '04457');
- * stocks.forEach((stock, tcin) => {
- *   console.log(`${tcin}: ${stock.store_stock_results?.[0]?.in_stock}`);
+ * stocks.forEach((lookup, tcin) => {
+ *   if ('errorCode' in lookup) return;
+ *   console.log(`${tcin}: ${lookup.stock.store_stock_results?.[0]?.in_stock} (cached: ${lookup.fromCache})`);
  * });
  */
 export async function checkBulkStoreStock(
   tcins: string[],
   zipCode: string,
-  _storeId?: string,
+  storeId?: string,
   options?: ApiRequestOptions,
-): Promise<Map<string, TargetStoreStockResponse>> {
-  if (process.env.NODE_ENV === 'development') {
-    console.log(
-      `[Target API] Checking bulk stock for ${tcins.length} products`,
-    );
-  }
+): Promise<Map<string, StoreStockLookup | FailedStoreStockLookup>> {
+  logger.debug(`Checking bulk stock for ${tcins.length} products`, { zipCode });
 
   // Create concurrent requests for all TCINs
   const stockPromises = tcins.map(async (tcin) => {
     try {
-      const stock = await checkStoreStock(tcin, zipCode, _storeId, options);
-      return { tcin, stock, error: null };
+      const lookup = await lookupStoreStock(tcin, zipCode, storeId, options);
+      return { tcin, lookup };
     } catch (error) {
-      // Don't fail entire batch on individual errors
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`[Target API] Failed to check stock for ${tcin}:`, error);
-      }
-      return { tcin, stock: null, error: error as ApiError };
+      // Don't fail entire batch on individual errors; keep the code so callers can report it
+      logger.warn(`Failed to check stock for ${tcin}`, { tcin, zipCode, error });
+      const errorCode = error instanceof ApiError ? error.code : 'UNKNOWN_ERROR';
+      return { tcin, lookup: { errorCode } };
     }
   });
 
@@ -242,15 +836,13 @@ export async function checkBulkStoreStock(
   const results = await Promise.all(stockPromises);
 
   // Build result map
-  const stockMap = new Map<string, TargetStoreStockResponse>();
-  results.forEach(({ tcin, stock }) => {
-    if (stock) {
-      stockMap.set(tcin, stock);
-      // Also store as string and number for flexible lookup
-      stockMap.set(tcin.toString(), stock);
-      if (!isNaN(Number(tcin))) {
-        stockMap.set(Number(tcin).toString(), stock);
-      }
+  const stockMap = new Map<string, StoreStockLookup | FailedStoreStockLookup>();
+  results.forEach(({ tcin, lookup }) => {
+    stockMap.set(tcin, lookup);
+    // Also store as string and number for flexible lookup
+    stockMap.set(tcin.toString(), lookup);
+    if (!isNaN(Number(tcin))) {
+      stockMap.set(Number(tcin).toString(), lookup);
     }
   });
 
@@ -275,46 +867,11 @@ export async function checkBulkStoreStock(
  * console.log(product.Product?.Title);
  * console.log(product.Product?.Price?.value);
  */
-export async function getProductByTcin(
+export function getProductByTcin(
   tcin: string,
   options?: ApiRequestOptions,
 ): Promise<TargetProductResponse> {
-  // Check cache first
-  if (!options?.skipCache) {
-    const cacheKey = generateProductCacheKey(tcin);
-    const cached = getCachedValue<TargetProductResponse>(
-      productCache,
-      cacheKey,
-    );
-    if (cached) {
-      return cached;
-    }
-  }
-
-  try {
-    const params = {
-      api_key: API_KEY,
-      type: 'product',
-      tcin,
-    };
-
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Target API] Fetching product details for TCIN ${tcin}`);
-    }
-
-    const response = await axiosInstance.get<TargetProductResponse>('', {
-      params,
-      timeout: options?.timeout || DEFAULT_TIMEOUT,
-    });
-
-    // Cache the result (1 hour TTL)
-    const cacheKey = generateProductCacheKey(tcin);
-    setCachedValue(productCache, cacheKey, response.data);
-
-    return response.data;
-  } catch (error) {
-    throw handleApiError(error, `TCIN ${tcin}`);
-  }
+  return fetchProductResponse<TargetProductResponse>(tcin, options);
 }
 
 /**
@@ -328,18 +885,14 @@ export async function getBulkProducts(
   tcins: string[],
   options?: ApiRequestOptions,
 ): Promise<Map<string, TargetProductResponse>> {
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`[Target API] Fetching ${tcins.length} product details`);
-  }
+  logger.debug(`Fetching ${tcins.length} product details`);
 
   const productPromises = tcins.map(async (tcin) => {
     try {
       const product = await getProductByTcin(tcin, options);
       return { tcin, product, error: null };
     } catch (error) {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn(`[Target API] Failed to fetch product ${tcin}:`, error);
-      }
+      logger.warn(`Failed to fetch product ${tcin}`, { tcin, error });
       return { tcin, product: null, error: error as ApiError };
     }
   });
@@ -363,6 +916,7 @@ export async function getBulkProducts(
 /**
  * Get full product details by TCIN (extended version)
  * Returns complete product data including variants, specifications, etc.
+ * Same request and cache entry as getProductByTcin, typed with the extended details
  *
  * @function
  * @param {string} tcin - Target TCIN (8-digit product ID)
@@ -370,48 +924,50 @@ export async function getBulkProducts(
  * @returns {Promise<TargetProductFullResponse>} Full product response with extended details
  * @throws {ApiError} If request fails or product not found
  */
-export async function getFullProductByTcin(
+export function getFullProductByTcin(
   tcin: string,
   options?: ApiRequestOptions,
 ): Promise<TargetProductFullResponse> {
+  return fetchProductResponse<TargetProductFullResponse>(tcin, options);
+}
+
+/**
+ * Fetch the type=product response for a TCIN
+ * getProductByTcin and getFullProductByTcin read the same RedCircle response, so they share
+ * one cache entry and one in-flight request (price ranking plus a fulfillment check pay once)
+ *
+ * @param tcin - Target TCIN
+ * @param options - Request options
+ * @returns Product response
+ * @throws ApiError if request fails
+ */
+async function fetchProductResponse<T>(
+  tcin: string,
+  options?: ApiRequestOptions,
+): Promise<T> {
   // Check cache first
+  const cacheKey = generateProductCacheKey(tcin);
   if (!options?.skipCache) {
-    const cacheKey = `full_product_${tcin}`;
-    const cached = getCachedValue<TargetProductFullResponse>(
-      productCache,
-      cacheKey,
-    );
+    const cached = await getCachedValue<T>(productCache, cacheKey);
     if (cached) {
       return cached;
     }
   }
 
-  try {
-    const params = {
-      api_key: API_KEY,
-      type: 'product',
-      tcin,
-    };
-
-    if (process.env.NODE_ENV === 'development') {
-      console.log(
-        `[Target API] Fetching full product details for TCIN ${tcin}`,
-      );
-    }
+  return coalesceRequest('product', cacheKey, async () => {
+    logger.debug(`Fetching product details for TCIN ${tcin}`);
 
-    const response = await axiosInstance.get<TargetProductFullResponse>('', {
-      params,
-      timeout: options?.timeout || DEFAULT_TIMEOUT,
-    });
+    const data = await executeRequest<T>(
+      { type: 'product', tcin },
+      `TCIN ${tcin}`,
+      options,
+    );
 
     // Cache the result (1 hour TTL)
-    const cacheKey = `full_product_${tcin}`;
-    setCachedValue(productCache, cacheKey, response.data);
+    await setCachedValue(productCache, cacheKey, data);
 
-    return response.data;
-  } catch (error) {
-    throw handleApiError(error, `TCIN ${tcin}`);
-  }
+    return data;
+  });
 }
 
 /**
@@ -434,9 +990,9 @@ export async function getProductByGtin(
   options?: ApiRequestOptions,
 ): Promise<TargetProductFullResponse> {
   // Check cache first
+  const cacheKey = `product_gtin_${gtin}`;
   if (!options?.skipCache) {
-    const cacheKey = `product_gtin_${gtin}`;
-    const cached = getCachedValue<TargetProductFullResponse>(
+    const cached = await getCachedValue<TargetProductFullResponse>(
       productCache,
       cacheKey,
     );
@@ -445,30 +1001,20 @@ export async function getProductByGtin(
     }
   }
 
-  try {
-    const params = {
-      api_key: API_KEY,
-      type: 'product',
-      gtin,
-    };
+  return coalesceRequest('gtin', cacheKey, async () => {
+    logger.debug(`Fetching product by GTIN ${gtin}`);
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Target API] Fetching product by GTIN ${gtin}`);
-    }
-
-    const response = await axiosInstance.get<TargetProductFullResponse>('', {
-      params,
-      timeout: options?.timeout || DEFAULT_TIMEOUT,
-    });
+    const data = await executeRequest<TargetProductFullResponse>(
+      { type: 'product', gtin },
+      `GTIN ${gtin}`,
+      options,
+    );
 
     // Cache the result (1 hour TTL)
-    const cacheKey = `product_gtin_${gtin}`;
-    setCachedValue(productCache, cacheKey, response.data);
+    await setCachedValue(productCache, cacheKey, data);
 
-    return response.data;
-  } catch (error) {
-    throw handleApiError(error, `GTIN ${gtin}`);
-  }
+    return data;
+  });
 }
 
 // ============================================================================
@@ -503,19 +1049,18 @@ export async function searchProducts(
   const page = options?.page || 1;
 
   // Check cache first
+  const cacheKey = `search_${searchTerm}_page${page}_${
+    options?.sortBy || 'default'
+  }`;
   if (!options?.skipCache) {
-    const cacheKey = `search_${searchTerm}_page${page}_${
-      options?.sortBy || 'default'
-    }`;
-    const cached = getCachedValue<TargetSearchResponse>(productCache, cacheKey);
+    const cached = await getCachedValue<TargetSearchResponse>(productCache, cacheKey);
     if (cached) {
       return cached;
     }
   }
 
-  try {
+  return coalesceRequest('search', cacheKey, async () => {
     const params: Record<string, string> = {
-      api_key: API_KEY,
       type: 'search',
       search_term: searchTerm,
       page: page.toString(),
@@ -525,25 +1070,19 @@ export async function searchProducts(
       params.sort_by = options.sortBy;
     }
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Target API] Searching for "${searchTerm}" (page ${page})`);
-    }
+    logger.debug(`Searching for "${searchTerm}" (page ${page})`);
 
-    const response = await axiosInstance.get<TargetSearchResponse>('', {
+    const data = await executeRequest<TargetSearchResponse>(
       params,
-      timeout: options?.timeout || DEFAULT_TIMEOUT,
-    });
+      `Search: ${searchTerm}`,
+      options,
+    );
 
     // Cache the result (5 minutes TTL for search results)
-    const cacheKey = `search_${searchTerm}_page${page}_${
-      options?.sortBy || 'default'
-    }`;
-    setCachedValue(productCache, cacheKey, response.data);
+    await setCachedValue(productCache, cacheKey, data);
 
-    return response.data;
-  } catch (error) {
-    throw handleApiError(error, `Search: ${searchTerm}`);
-  }
+    return data;
+  });
 }
 
 // ============================================================================
@@ -595,18 +1134,18 @@ export function isValidTcin(tcin: string): boolean {
 
 /**
  * Check if Target API is accessible
+ * Costs one RedCircle credit per call (the product cache is bypassed)
  *
+ * @param options - Request options (e.g. a short timeout and no retries for probes)
  * @returns True if API is healthy
  */
-export async function checkApiHealth(): Promise<boolean> {
+export async function checkApiHealth(options?: ApiRequestOptions): Promise<boolean> {
   try {
     // Try to fetch a well-known product
-    await getProductByTcin('78025470', { skipCache: true });
+    await getProductByTcin('78025470', { ...options, skipCache: true });
     return true;
   } catch (error) {
-    if (process.env.NODE_ENV === 'development') {
-      console.error('[Target API] Health check failed:', error);
-    }
+    logger.warn('Health check failed', { error });
     return false;
   }
 }
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview RedCircle circuit breaker
+ * @description Stops calling RedCircle while it is failing. After CIRCUIT_FAILURE_THRESHOLD
+ * consecutive failed calls the circuit opens and requests fail fast with CIRCUIT_OPEN; once
+ * CIRCUIT_OPEN_SECONDS have passed it half-opens and lets one probe request through, which
+ * closes the circuit on success or re-opens it on failure
+ * @module services/target/circuit-breaker
+ * @related services/target/api.ts, services/stock/product-selector.ts, services/health/readiness.ts
+ */
+
+import { CircuitBreakerStatus, CircuitState } from '../../types';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Circuit Breaker');
+
+// ============================================================================
+// Circuit Configuration
+// ============================================================================
+
+/**
+ * Consecutive failed calls (network errors, timeouts, 5xx, 429) that open the circuit. 0 disables it
+ */
+const FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+
+/**
+ * How long an open circuit fails fast before letting a probe through
+ */
+const OPEN_DURATION_MS = parseInt(process.env.CIRCUIT_OPEN_SECONDS || '30', 10) * 1000;
+
+// ============================================================================
+// Circuit State
+// ============================================================================
+
+let state: CircuitState = 'closed';
+let consecutiveFailures = 0;
+let openedAt = 0;
+let timesOpened = 0;
+
+/**
+ * Start of the half-open probe in flight (0 = none)
+ */
+let probeStartedAt = 0;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Ask whether a RedCircle call may be made now
+ * An open circuit whose cool-down has ended moves to half-open and grants this caller the probe;
+ * other callers are refused until the probe's outcome is recorded
+ *
+ * @returns True if the call may go ahead
+ */
+export function acquireCircuitPermit(): boolean {
+  const now = Date.now();
+
+  if (state === 'closed') {
+    return true;
+  }
+
+  if (state === 'open') {
+    if (now < openedAt + OPEN_DURATION_MS) {
+      return false;
+    }
+    state = 'half_open';
+    logger.info('Circuit half-open, probing RedCircle');
+  }
+
+  // Half-open: one probe at a time (a probe that never reported is replaced after the cool-down)
+  if (probeStartedAt && now < probeStartedAt + OPEN_DURATION_MS) {
+    return false;
+  }
+  probeStartedAt = now;
+  return true;
+}
+
+/**
+ * Record a RedCircle call that got an answer (including "not found" and other client errors)
+ */
+export function recordCircuitSuccess(): void {
+  consecutiveFailures = 0;
+
+  if (state !== 'closed') {
+    state = 'closed';
+    probeStartedAt = 0;
+    logger.info('Circuit closed, RedCircle is answering again');
+  }
+}
+
+/**
+ * Record a failed RedCircle call (network error, timeout, 5xx or rate limit)
+ * Opens the circuit at the failure threshold, or re-opens it when the half-open probe fails
+ */
+export function recordCircuitFailure(): void {
+  consecutiveFailures++;
+
+  if (FAILURE_THRESHOLD <= 0) {
+    return;
+  }
+
+  if (state === 'half_open' || (state === 'closed' && consecutiveFailures >= FAILURE_THRESHOLD)) {
+    state = 'open';
+    openedAt = Date.now();
+    probeStartedAt = 0;
+    timesOpened++;
+    logger.warn(
+      `Circuit opened after ${consecutiveFailures} consecutive failures, `
+      + `failing fast for ${OPEN_DURATION_MS / 1000}s`,
+      { consecutiveFailures },
+    );
+  }
+}
+
+/**
+ * Whether RedCircle calls are being refused right now
+ * (open and cooling down, or half-open with the probe in flight)
+ *
+ * @returns True if a call made now would fail fast
+ */
+export function isCircuitOpen(): boolean {
+  const now = Date.now();
+
+  if (state === 'open') {
+    return now < openedAt + OPEN_DURATION_MS;
+  }
+
+  return state === 'half_open' && probeStartedAt > 0 && now < probeStartedAt + OPEN_DURATION_MS;
+}
+
+/**
+ * Get the circuit state for health checks and metrics
+ *
+ * @returns Circuit breaker status
+ */
+export function getCircuitStatus(): CircuitBreakerStatus {
+  return {
+    state,
+    consecutiveFailures,
+    failureThreshold: FAILURE_THRESHOLD,
+    openedAt: openedAt ? new Date(openedAt).toISOString() : undefined,
+    retryAt: state === 'open' ? new Date(openedAt + OPEN_DURATION_MS).toISOString() : undefined,
+    timesOpened,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview RedCircle credit accounting and budget guardrails
+ * @description Records credits used per endpoint, per API client and per short link from
+ * `request_info` of every RedCircle response, warns when `credits_remaining` runs low and
+ * switches the service to cache-only mode once the daily credit budget is used up. The ledger
+ * lives in memory, so totals and the budget are per instance
+ * @module services/target/credit-ledger
+ * @related services/target/api.ts, utils/request-context.ts, controllers/admin.ts
+ */
+
+import { getRequestContext, recordRequestCredits } from '../../utils/request-context';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Credit Ledger');
+
+// ============================================================================
+// Ledger Configuration
+// ============================================================================
+
+/**
+ * Daily credit budget of this instance (UTC day). 0 disables the budget
+ * Every instance counts only its own calls, so N instances can spend up to N times this per day
+ */
+const DAILY_CREDIT_BUDGET = readInstanceCreditBudget();
+
+/**
+ * Warn when the account's credits_remaining drops below this value. 0 disables the warning
+ */
+const CREDITS_REMAINING_WARN_THRESHOLD = parseInt(
+  process.env.REDCIRCLE_CREDITS_WARN_THRESHOLD || '1000',
+  10,
+);
+
+/**
+ * Minimum interval between low-credit warnings
+ */
+const WARN_INTERVAL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Ledger State
+// ============================================================================
+
+interface CreditBucket {
+  total: number;
+  requests: number;
+  byEndpoint: Record<string, number>;
+  byClient: Record<string, number>;
+  byShortLink: Record<string, number>;
+}
+
+const startedAt = new Date().toISOString();
+const lifetime = createBucket();
+let today = { day: currentDay(), bucket: createBucket() };
+let lastCreditsRemaining: number | undefined;
+let lastWarnAt = 0;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Record credits from a RedCircle response
+ * Attributes them to the calling API client and short link (from the request context)
+ *
+ * @param endpoint - RedCircle request type (store_stock, product, search)
+ * @param requestInfo - `request_info` from the response
+ */
+export function recordCredits(
+  endpoint: string,
+  requestInfo?: { credits_used?: number; credits_remaining?: number },
+): void {
+  const credits = requestInfo?.credits_used ?? 1;
+  const context = getRequestContext();
+  const clientId = context?.clientId || (context ? 'anonymous' : 'background');
+
+  rollOverDay();
+  addToBuckets(endpoint, clientId, context?.shortLink, credits);
+
+  // Per-request attribution (daily client quotas)
+  recordRequestCredits(credits);
+
+  if (requestInfo?.credits_remaining !== undefined) {
+    lastCreditsRemaining = requestInfo.credits_remaining;
+    warnIfCreditsLow(requestInfo.credits_remaining);
+  }
+}
+
+/**
+ * Whether today's credit budget is used up (service is in cache-only mode)
+ *
+ * @returns True if no further RedCircle requests should be made today
+ */
+export function isCreditBudgetExhausted(): boolean {
+  if (DAILY_CREDIT_BUDGET <= 0) {
+    return false;
+  }
+
+  rollOverDay();
+  return today.bucket.total >= DAILY_CREDIT_BUDGET;
+}
+
+/**
+ * When today's credit budget resets (start of the next UTC day)
+ *
+ * @returns ISO timestamp of the next UTC midnight
+ */
+export function getCreditBudgetResetAt(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+}
+
+/**
+ * Get a snapshot of the credit ledger
+ *
+ * @returns Running totals for today and since instance start
+ */
+export function getCreditLedger() {
+  rollOverDay();
+
+  return {
+    startedAt,
+    dailyBudget: DAILY_CREDIT_BUDGET || null,
+    dailyBudgetRemaining: DAILY_CREDIT_BUDGET > 0
+      ? Math.max(0, DAILY_CREDIT_BUDGET - today.bucket.total)
+      : null,
+    cacheOnlyMode: isCreditBudgetExhausted(),
+    creditsRemaining: lastCreditsRemaining ?? null,
+    creditsRemainingWarnThreshold: CREDITS_REMAINING_WARN_THRESHOLD || null,
+    today: { day: today.day, ...today.bucket },
+    sinceStart: lifetime,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Read the per-instance daily credit budget
+ * REDCIRCLE_DAILY_CREDIT_BUDGET (deprecated: the name suggested an account-wide budget) is
+ * still read when the new variable is unset
+ *
+ * @returns Daily credit budget (0 = unlimited)
+ */
+function readInstanceCreditBudget(): number {
+  const budget = process.env.REDCIRCLE_INSTANCE_DAILY_CREDIT_BUDGET;
+  const deprecatedBudget = process.env.REDCIRCLE_DAILY_CREDIT_BUDGET;
+
+  if (budget === undefined && deprecatedBudget !== undefined) {
+    logger.warn(
+      'REDCIRCLE_DAILY_CREDIT_BUDGET is deprecated, use REDCIRCLE_INSTANCE_DAILY_CREDIT_BUDGET '
+      + '(the budget is enforced per instance)',
+    );
+  }
+
+  return parseInt(budget ?? deprecatedBudget ?? '0', 10);
+}
+
+/**
+ * Create an empty credit bucket
+ */
+function createBucket(): CreditBucket {
+  return {
+    total: 0,
+    requests: 0,
+    byEndpoint: {},
+    byClient: {},
+    byShortLink: {},
+  };
+}
+
+/**
+ * Add credits to the lifetime and today's buckets
+ */
+function addToBuckets(
+  endpoint: string,
+  clientId: string,
+  shortLink: string | undefined,
+  credits: number,
+): void {
+  for (const bucket of [lifetime, today.bucket]) {
+    bucket.total += credits;
+    bucket.requests++;
+    bucket.byEndpoint[endpoint] = (bucket.byEndpoint[endpoint] || 0) + credits;
+    bucket.byClient[clientId] = (bucket.byClient[clientId] || 0) + credits;
+    if (shortLink) {
+      bucket.byShortLink[shortLink] = (bucket.byShortLink[shortLink] || 0) + credits;
+    }
+  }
+}
+
+/**
+ * Start a new daily bucket when the UTC day changes
+ */
+function rollOverDay(): void {
+  const day = currentDay();
+  if (today.day !== day) {
+    today = { day, bucket: createBucket() };
+  }
+}
+
+/**
+ * Warn (throttled) when the account is running low on credits
+ *
+ * @param creditsRemaining - credits_remaining from the latest response
+ */
+function warnIfCreditsLow(creditsRemaining: number): void {
+  if (CREDITS_REMAINING_WARN_THRESHOLD <= 0 || creditsRemaining >= CREDITS_REMAINING_WARN_THRESHOLD) {
+    return;
+  }
+
+  const now = Date.now();
+  if (now - lastWarnAt < WARN_INTERVAL_MS) {
+    return;
+  }
+  lastWarnAt = now;
+
+  logger.warn(`RedCircle credits_remaining is ${creditsRemaining}`, {
+    creditsRemaining,
+    threshold: CREDITS_REMAINING_WARN_THRESHOLD,
+  });
+}
+
+/**
+ * Current UTC day (YYYY-MM-DD)
+ */
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
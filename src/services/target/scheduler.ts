@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Global request scheduler for Target RedCircle API calls
+ * @description Caps in-flight RedCircle requests and enforces a per-second token bucket.
+ * Callers queue (FIFO) instead of failing when limits are reached.
+ * @module services/target/scheduler
+ * @related services/target/api.ts
+ */
+
+import { AsyncResource } from 'async_hooks';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('Scheduler');
+
+// ============================================================================
+// Scheduler Configuration
+// ============================================================================
+
+/**
+ * Maximum number of RedCircle requests in flight at once
+ */
+const MAX_CONCURRENCY = Math.max(
+  1,
+  parseInt(process.env.TARGET_API_MAX_CONCURRENCY || '5', 10),
+);
+
+/**
+ * Token bucket refill rate (requests per second) and burst capacity
+ */
+const REQUESTS_PER_SECOND = Math.max(
+  1,
+  parseInt(process.env.TARGET_API_REQUESTS_PER_SECOND || '10', 10),
+);
+
+// ============================================================================
+// Scheduler State
+// ============================================================================
+
+interface QueuedTask {
+  run: (waitMs: number) => void;
+  enqueuedAt: number;
+}
+
+const queue: QueuedTask[] = [];
+let inFlight = 0;
+let tokens = REQUESTS_PER_SECOND;
+let lastRefill = Date.now();
+let refillTimer: NodeJS.Timeout | null = null;
+
+const stats = {
+  scheduled: 0,
+  completed: 0,
+  totalWaitMs: 0,
+  maxWaitMs: 0,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run a task through the global RedCircle scheduler
+ * The task starts once a concurrency slot and a rate-limit token are available
+ *
+ * @param task - Function performing a single upstream request
+ * @returns Task result
+ *
+ * @example
+ * const response = await scheduleRequest(() => axiosInstance.get('', { params }));
+ */
+export function scheduleRequest<T>(task: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const enqueuedAt = Date.now();
+    stats.scheduled++;
+
+    queue.push({
+      enqueuedAt,
+      // Queued tasks start from another request's callback or a timer; binding keeps
+      // the caller's request context (request ID, credit tracking)
+      run: AsyncResource.bind((waitMs: number) => {
+        if (waitMs > 0) {
+          logger.debug(`Request started after ${waitMs}ms (queue depth: ${queue.length})`);
+        }
+
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            inFlight--;
+            stats.completed++;
+            drainQueue();
+          });
+      }),
+    });
+
+    drainQueue();
+  });
+}
+
+/**
+ * Get scheduler statistics (queue depth, in-flight count, wait times)
+ *
+ * @returns Scheduler statistics
+ */
+export function getSchedulerStats() {
+  const started = stats.scheduled - queue.length;
+
+  return {
+    maxConcurrency: MAX_CONCURRENCY,
+    requestsPerSecond: REQUESTS_PER_SECOND,
+    queueDepth: queue.length,
+    inFlight,
+    scheduled: stats.scheduled,
+    completed: stats.completed,
+    averageWaitMs: started > 0 ? Math.round(stats.totalWaitMs / started) : 0,
+    maxWaitMs: stats.maxWaitMs,
+    oldestQueuedWaitMs: queue.length > 0 ? Date.now() - queue[0].enqueuedAt : 0,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Refill the token bucket based on elapsed time
+ */
+function refillTokens(): void {
+  const now = Date.now();
+  const elapsedSeconds = (now - lastRefill) / 1000;
+  tokens = Math.min(REQUESTS_PER_SECOND, tokens + elapsedSeconds * REQUESTS_PER_SECOND);
+  lastRefill = now;
+}
+
+/**
+ * Resume draining once the next token is available
+ *
+ * @param waitMs - Time until the next token in milliseconds
+ */
+function scheduleRefill(waitMs: number): void {
+  if (refillTimer) {
+    return;
+  }
+
+  refillTimer = setTimeout(() => {
+    refillTimer = null;
+    drainQueue();
+  }, waitMs);
+}
+
+/**
+ * Start queued tasks while concurrency slots and tokens are available
+ * Schedules a timer for the next token when the bucket is empty
+ */
+function drainQueue(): void {
+  while (queue.length > 0 && inFlight < MAX_CONCURRENCY) {
+    refillTokens();
+
+    if (tokens < 1) {
+      scheduleRefill(Math.ceil(((1 - tokens) / REQUESTS_PER_SECOND) * 1000));
+      return;
+    }
+
+    const next = queue.shift() as QueuedTask;
+    tokens -= 1;
+    inFlight++;
+
+    const waitMs = Date.now() - next.enqueuedAt;
+    stats.totalWaitMs += waitMs;
+    stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+
+    next.run(waitMs);
+  }
+}
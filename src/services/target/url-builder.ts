@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Target multi-item destination URL builder
+ * @description Turns several selected products (with quantities) into one Target destination.
+ * Target has no public multi-item cart URL, so each strategy builds the closest equivalent:
+ * a search-by-TCIN results page or a landing page from a configured URL template
+ * @module services/target/url-builder
+ * @related services/stock/product-selector.ts, services/target/api.ts
+ */
+
+import { SelectedProduct, MultiItemStrategy } from '../../types';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('URL Builder');
+
+// ============================================================================
+// Builder Configuration
+// ============================================================================
+
+/**
+ * Strategy used when the request doesn't choose one
+ */
+const DEFAULT_MULTI_ITEM_STRATEGY = parseStrategy(process.env.TARGET_MULTI_ITEM_STRATEGY) || 'search';
+
+/**
+ * Template for the `template` strategy, e.g. a registry/list landing page:
+ * https://example.com/target-list?items={items}&ref={shortLink}
+ *
+ * Placeholders:
+ * - {tcins}     comma-separated TCINs
+ * - {items}     comma-separated tcin:quantity pairs
+ * - {shortLink} short link that was resolved (URL-encoded)
+ */
+const MULTI_ITEM_URL_TEMPLATE = process.env.TARGET_MULTI_ITEM_URL_TEMPLATE || '';
+
+/**
+ * Target search results page
+ */
+const TARGET_SEARCH_URL = 'https://www.target.com/s';
+
+// ============================================================================
+// Strategy Registry
+// ============================================================================
+
+interface MultiItemContext {
+  shortLink?: string;
+}
+
+type MultiItemBuilder = (products: SelectedProduct[], context: MultiItemContext) => string | null;
+
+/**
+ * Builders by strategy name; a builder returns null when it can't produce a URL
+ */
+const builders: Record<Exclude<MultiItemStrategy, 'none'>, MultiItemBuilder> = {
+  search: buildSearchUrl,
+  template: buildTemplateUrl,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a multi-item Target destination for the selected products
+ *
+ * @param products - Selected products (quantity defaults to 1)
+ * @param strategy - Strategy to use (defaults to TARGET_MULTI_ITEM_STRATEGY)
+ * @param context - Request details available to templates
+ * @returns URL and the strategy that built it, or null if the strategy is `none` or unavailable
+ *
+ * @example
+ * buildMultiItemUrl(products, 'search')
+ * // Returns: { url: 'https://www.target.com/s?searchTerm=12345678+87654321', strategy: 'search' }
+ */
+export function buildMultiItemUrl(
+  products: SelectedProduct[],
+  strategy: MultiItemStrategy = DEFAULT_MULTI_ITEM_STRATEGY,
+  context: MultiItemContext = {},
+): { url: string; strategy: Exclude<MultiItemStrategy, 'none'> } | null {
+  if (strategy === 'none' || products.length === 0) {
+    return null;
+  }
+
+  const url = builders[strategy](products, context);
+  if (!url) {
+    logger.debug(`Strategy "${strategy}" could not build a URL, using fallback`, { strategy });
+    return null;
+  }
+
+  return { url, strategy };
+}
+
+/**
+ * Get the configured default multi-item strategy
+ *
+ * @returns Default strategy
+ */
+export function getDefaultMultiItemStrategy(): MultiItemStrategy {
+  return DEFAULT_MULTI_ITEM_STRATEGY;
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * Search results page listing every selected TCIN
+ * Quantities can't be expressed in a search URL and are dropped
+ *
+ * @param products - Selected products
+ * @returns Search URL
+ */
+function buildSearchUrl(products: SelectedProduct[]): string {
+  const searchTerm = products.map((product) => product.productId).join(' ');
+  return `${TARGET_SEARCH_URL}?${new URLSearchParams({ searchTerm }).toString()}`;
+}
+
+/**
+ * Landing page from TARGET_MULTI_ITEM_URL_TEMPLATE
+ *
+ * @param products - Selected products
+ * @param context - Request details
+ * @returns Expanded template, or null if no template is configured
+ */
+function buildTemplateUrl(products: SelectedProduct[], context: MultiItemContext): string | null {
+  if (!MULTI_ITEM_URL_TEMPLATE) {
+    return null;
+  }
+
+  const values: Record<string, string> = {
+    tcins: products.map((product) => encodeURIComponent(product.productId)).join(','),
+    items: products
+      .map((product) => `${encodeURIComponent(product.productId)}:${product.quantity ?? 1}`)
+      .join(','),
+    shortLink: encodeURIComponent(context.shortLink || ''),
+  };
+
+  return MULTI_ITEM_URL_TEMPLATE.replace(/\{(tcins|items|shortLink)\}/g, (_match, name: string) => values[name]);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse a strategy name
+ *
+ * @param value - Raw value (env var or request field)
+ * @returns Strategy or undefined if not recognized
+ */
+function parseStrategy(value: string | undefined): MultiItemStrategy | undefined {
+  return value === 'search' || value === 'template' || value === 'none' ? value : undefined;
+}
@@ -15,20 +15,81 @@
 export interface BackupGroup {
   primaryId: string;
   backupIds: string[];
+  quantity?: number; // Units required (default 1)
+  allowSplit?: boolean; // Fill the quantity across the primary and its backups
 }
 
 /**
  * Cart URL generation options
  * Note: For Target, these options are accepted but have no effect (product pages only)
  */
+/**
+ * How several selected products become one Target destination
+ * - search: Target search results page for the selected TCINs
+ * - template: landing page from TARGET_MULTI_ITEM_URL_TEMPLATE (e.g. a registry/list page)
+ * - none: fall back to customUrl/longLink
+ */
+export type MultiItemStrategy = 'search' | 'template' | 'none';
+
 export interface CartUrlOptions {
   mode?: 'auto' | 'offers' | 'items';
+  multiItemStrategy?: MultiItemStrategy; // Target only; defaults to TARGET_MULTI_ITEM_STRATEGY
   fallbackMode?: 'offers' | 'items';
   includeStoreId?: 'never' | 'auto' | 'always';
   preferItemsForWalmart?: boolean;
   preferOffersForMarketplace?: boolean;
 }
 
+/**
+ * Availability check strategy
+ * - eager: check every primary and backup in a single batch
+ * - lazy: check primaries first, then only the next backup tier for unresolved groups
+ */
+export type AvailabilityCheckMode = 'eager' | 'lazy';
+
+/**
+ * How stores are chosen for the selected products
+ * - nearest: each product uses its own best store (default)
+ * - single: one store that fills the most groups
+ * - fewest: as few stores as possible, each filling the most remaining groups
+ */
+export type StoreSelectionMode = 'nearest' | 'single' | 'fewest';
+
+/**
+ * How the shopper gets the product
+ * - in_store: on the shelf at the chosen nearby store (store_stock only)
+ * - pickup: in stock at the chosen store and the product offers order pickup
+ * - delivery: same-day delivery offered and in stock at a nearby store
+ * - shipping: ships to the shopper (no nearby store stock needed)
+ */
+export type FulfillmentChannel = 'in_store' | 'pickup' | 'delivery' | 'shipping';
+
+/**
+ * Which stores may be chosen for a product (request fields override server defaults)
+ */
+export interface StorePolicy {
+  maxDistanceMiles?: number;
+  minStockLevel?: number; // In-stock stores with fewer units are rejected
+  allowStoreIds?: string[]; // Only these stores (when non-empty)
+  denyStoreIds?: string[];
+  preferredStoreIds?: string[]; // Tried in order (after storeId) before the nearest store
+}
+
+/**
+ * Why a store policy rejected a store
+ */
+export type StoreRejectionReason = 'TOO_FAR' | 'BELOW_MIN_STOCK' | 'NOT_ALLOWED' | 'DENIED';
+
+/**
+ * Store rejected by the store policy
+ */
+export interface RejectedStore {
+  storeId: string;
+  storeName?: string;
+  distance?: number;
+  reason: StoreRejectionReason;
+}
+
 /**
  * Standard request payload for smart product selection
  */
@@ -41,6 +102,14 @@ export interface SmartSelectionRequest {
   customUrl?: string;
   allowPdp?: boolean;
   cartUrlOptions?: CartUrlOptions;
+  availabilityMode?: AvailabilityCheckMode;
+  explain?: boolean; // Return a decision trace (diagnostic, not counted in analytics)
+  storeSelection?: StoreSelectionMode;
+  fulfillment?: FulfillmentChannel; // Channel a product must qualify for (default in_store)
+  storePolicy?: StorePolicy;
+  backupRanking?: BackupRanking; // Order backups are tried in (default: array order)
+  maxPriceIncreasePercent?: number; // Skip backups priced more than this % above their primary
+  autoBackups?: boolean; // Discover backups when a group's primary and backups are all unavailable
 }
 
 // ============================================================================
@@ -53,7 +122,30 @@ export interface SmartSelectionRequest {
 export interface BackupProductUsed {
   originalId: string;
   replacementId: string;
-  reason: 'OUT_OF_STOCK' | 'PRIMARY_UNUSABLE';
+  reason: 'OUT_OF_STOCK' | 'PRIMARY_UNUSABLE' | 'INSUFFICIENT_QUANTITY';
+  autoSource?: AutoBackupSource; // Set when the replacement was discovered automatically (autoBackups)
+}
+
+/**
+ * Price of a product chosen for a group (reported when backup ranking looked prices up)
+ */
+export interface SelectedProductPrice {
+  productId: string;
+  primaryId: string;
+  price?: number;
+  currency?: string;
+  priceChangePercent?: number; // Relative to the group's primary (backups only)
+}
+
+/**
+ * Quantity fulfilled for one backup group
+ */
+export interface GroupFulfillment {
+  primaryId: string;
+  requestedQuantity: number;
+  fulfilledQuantity: number;
+  shortfall: number;
+  allocations: Array<{ productId: string; quantity: number }>;
 }
 
 /**
@@ -64,6 +156,22 @@ export interface CartOptionsSummary {
   includeStoreId: string;
   fallbackApplied: boolean;
   finalType: string;
+  multiItemStrategy?: MultiItemStrategy; // Strategy attempted when several products were selected
+}
+
+/**
+ * Type of URL returned by smart selection
+ */
+export type CartUrlType = 'pdp' | 'search' | 'template' | 'longLink' | 'custom';
+
+/**
+ * Availability check summary (stock lookups performed vs. eager mode)
+ */
+export interface AvailabilityCheckSummary {
+  mode: AvailabilityCheckMode;
+  productsChecked: number;
+  checkRounds: number;
+  creditsSaved: number; // RedCircle stock calls avoided compared with eager mode (skipped products not cached)
 }
 
 /**
@@ -74,9 +182,138 @@ export interface SmartSelectionResponse {
   backupsUsed: boolean;
   backupProducts: BackupProductUsed[];
   allProductsUnavailable: boolean;
-  cartUrlType: 'pdp' | 'longLink' | 'custom';
+  cartUrlType: CartUrlType;
   storeIdAttached?: string;
   cartOptionsSummary: CartOptionsSummary;
+  fulfillment: GroupFulfillment[]; // Quantity fulfilled per backup group, in request order
+  availabilityCheck?: AvailabilityCheckSummary;
+  staleDataUsed?: boolean; // True if any availability data was served past its soft TTL
+  staleDataAgeSeconds?: number; // Age of the oldest stale availability data
+  cacheOnly?: boolean; // Daily credit budget used up - only cached availability was used
+  degraded?: boolean; // RedCircle circuit open or refused a lookup - answered from cached data or the primary PDP/longLink
+  explain?: SelectionExplanation; // Present when the request set explain: true
+  storePlan?: StorePlan; // Present when storeSelection is single or fewest
+  rejectedStores?: Array<RejectedStore & { productIds: string[] }>; // Stores the policy ruled out
+  prices?: SelectedProductPrice[]; // Present when backupRanking/maxPriceIncreasePercent looked prices up
+}
+
+/**
+ * Store(s) chosen in single/fewest store selection mode
+ */
+export interface StorePlan {
+  mode: StoreSelectionMode;
+  stores: Array<{
+    storeId: string;
+    storeName?: string;
+    distance?: number;
+    groupsCovered: string[]; // primaryIds of the groups filled at this store
+  }>;
+  uncoveredGroups: string[]; // primaryIds no single candidate store could fill
+}
+
+/**
+ * Why selectBestStore picked a store
+ */
+export type StoreSelectionReason =
+  | 'PREFERRED_STORE' // Store matching the request's storeId
+  | 'NEAREST_IN_STOCK' // Closest store with stock_level > 0
+  | 'NEAREST_STORE_NONE_IN_STOCK' // No store in stock - closest store reported
+  | 'PREFERRED_STORE_CHAIN' // First in-stock store from the policy's preferredStoreIds
+  | 'STORE_PLAN'; // Store chosen for the whole selection (single/fewest store mode)
+
+/**
+ * Which buildRedirectUrl rule chose the final URL
+ */
+export type RedirectRule =
+  | 'NO_PRODUCTS_AVAILABLE'
+  | 'SINGLE_PRODUCT_PDP'
+  | 'PDP_NOT_ALLOWED'
+  | 'MULTI_ITEM_URL' // Several products, multi-item strategy built a URL
+  | 'MULTIPLE_PRODUCTS' // Several products, no multi-item URL (strategy none or unavailable)
+  | 'DEGRADED_PRIMARY_PDP'; // RedCircle circuit open, no cached data - primary product page
+
+/**
+ * Explain trace for one candidate product (primary or backup)
+ */
+export interface CandidateDecision {
+  productId: string;
+  role: 'primary' | 'backup' | 'auto'; // auto: discovered by autoBackups
+  checked: boolean; // False if availability was never looked up (lazy mode)
+  usable: boolean; // Chosen store covers the group quantity (or has stock, when splitting)
+  inStock?: boolean;
+  stockLevel?: number;
+  storeId?: string;
+  storeName?: string;
+  distance?: number;
+  storeSelectionReason?: StoreSelectionReason;
+  fromCache?: boolean;
+  stale?: boolean;
+  dataAgeSeconds?: number;
+  errorCode?: string | number; // Why no store data was available (e.g. NO_STOCK_DATA, CIRCUIT_OPEN)
+  fulfillmentChannels?: FulfillmentChannel[];
+}
+
+/**
+ * Explain trace for one backup group
+ */
+export interface GroupDecision {
+  primaryId: string;
+  outcome: 'PRIMARY_USED' | 'BACKUP_USED' | 'SPLIT' | 'ALL_UNAVAILABLE';
+  selectedId?: string;
+  candidates: CandidateDecision[];
+  priceExcludedIds?: string[]; // Backups skipped by maxPriceIncreasePercent
+}
+
+/**
+ * Decision trace returned in explain mode
+ */
+export interface SelectionExplanation {
+  groups: GroupDecision[];
+  redirect: {
+    rule: RedirectRule;
+    target: CartUrlType;
+    reason: string;
+  };
+}
+
+/**
+ * Batch smart selection request (POST /api/stock/smart-select/batch)
+ */
+export interface SmartSelectionBatchRequest {
+  requests: SmartSelectionRequest[];
+}
+
+/**
+ * Structured error body (same shape as single-request error responses)
+ */
+export interface ErrorBody {
+  code: string | number;
+  message: string;
+  field?: string;
+  details?: unknown;
+}
+
+/**
+ * Per-item batch result: either a selection response or an error
+ */
+export interface SmartSelectionBatchItemResult {
+  index: number;
+  shortLink?: string;
+  success: boolean;
+  data?: SmartSelectionResponse;
+  error?: ErrorBody;
+}
+
+/**
+ * Batch smart selection response
+ */
+export interface SmartSelectionBatchResponse {
+  results: SmartSelectionBatchItemResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
 }
 
 // ============================================================================
@@ -339,6 +576,46 @@ export interface TargetProductResponse {
 // Internal Service Types
 // ============================================================================
 
+/**
+ * Order in which a group's backups are tried
+ * - order: array order
+ * - price: closest price to the primary first
+ * - rating: highest rating first
+ */
+export type BackupRanking = 'order' | 'price' | 'rating';
+
+/**
+ * Price and rating of a product (from product details)
+ */
+export interface ProductPricing {
+  price?: number;
+  currency?: string;
+  rating?: number;
+}
+
+/**
+ * Backup groups after ranking, with the data used to rank them
+ */
+export interface RankedBackups {
+  backups: BackupGroup[];
+  pricing: Map<string, ProductPricing>; // Empty when no product details were needed
+  priceExcluded: Map<string, string[]>; // primaryId -> backups over the price ceiling
+}
+
+/**
+ * Where an automatically discovered backup came from
+ */
+export type AutoBackupSource = 'variant' | 'search';
+
+/**
+ * Backup groups after automatic discovery
+ */
+export interface AutoBackupResult {
+  backups: BackupGroup[]; // Groups with in-stock discovered backups appended
+  sources: Map<string, Map<string, AutoBackupSource>>; // primaryId -> discovered productId -> source
+  creditsCharged: number; // Worst-case credits (cached lookups count too)
+}
+
 /**
  * Product availability information (standardized format)
  */
@@ -351,6 +628,52 @@ export interface ProductAvailability {
   distance?: number;
   offerId?: string; // Not used for Target, included for standardization
   offerType?: string;
+  fromCache?: boolean;
+  stale?: boolean; // Served from cache past its soft TTL
+  dataAgeSeconds?: number;
+  storeSelectionReason?: StoreSelectionReason;
+  errorCode?: string | number; // Set when no usable store data was returned (failed lookups keep their code)
+  stores?: StoreAvailability[]; // Every policy-eligible store in the stock results, for the requested channel (store planning)
+  rejectedStores?: RejectedStore[]; // Stores the store policy ruled out
+  fulfillmentChannels?: FulfillmentChannel[]; // Channels the product qualified for
+}
+
+/**
+ * Stock for one product at one store
+ */
+export interface StoreAvailability {
+  storeId: string;
+  storeName: string;
+  distance: number;
+  inStock: boolean;
+  availableQuantity: number;
+}
+
+/**
+ * Store stock lookup result with cache metadata
+ */
+export interface StoreStockLookup {
+  stock: TargetStoreStockResponse;
+  fromCache: boolean;
+  cacheSource?: 'zip' | 'store'; // ZIP-level response or store-level index
+  stale: boolean;
+  ageSeconds: number;
+}
+
+/**
+ * Store stock lookup that failed (see checkBulkStoreStock)
+ */
+export interface FailedStoreStockLookup {
+  errorCode: string | number; // ApiError code, e.g. CIRCUIT_OPEN or CREDIT_BUDGET_EXHAUSTED
+}
+
+/**
+ * Store stock row indexed by (tcin, store_id) in the stock cache
+ */
+export interface IndexedStoreStock {
+  tcin: string;
+  zipCode: string; // ZIP code of the request that returned this row
+  store: TargetStoreStock;
 }
 
 /**
@@ -360,6 +683,9 @@ export interface StockCheckParams {
   productIds: string[];
   zipCode: string;
   storeId?: string;
+  fulfillment?: FulfillmentChannel;
+  storePolicy?: StorePolicy; // Effective policy (server defaults merged with request)
+  compareStores?: boolean; // Store planning (storeSelection single/fewest) needs every store near the ZIP
 }
 
 /**
@@ -395,6 +721,8 @@ export interface ProductSelectionResult {
   selectedProducts: SelectedProduct[];
   backupProductsUsed: BackupProductUsed[];
   unavailableProducts: string[];
+  groupDecisions: GroupDecision[]; // Per-group trace (returned in explain mode)
+  fulfillment: GroupFulfillment[];
 }
 
 // ============================================================================
@@ -411,6 +739,33 @@ export interface CacheKey {
   productIds?: string[];
 }
 
+/**
+ * Cache statistics for a single cache namespace
+ */
+export interface CacheStats {
+  keys: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * Pluggable cache backend for a single namespace (e.g., stock, product)
+ * Implementations: MemoryCacheStore (node-cache), RedisCacheStore (Redis protocol)
+ */
+export interface CacheStore {
+  readonly namespace: string;
+  readonly backend: 'memory' | 'redis';
+  readonly defaultTtl: number; // Seconds (0 = never expire)
+  get<T>(key: string): Promise<T | undefined>;
+  has(key: string): Promise<boolean>; // Existence check (not counted as a hit or miss)
+  set<T>(key: string, value: T, ttl?: number): Promise<boolean>;
+  delete(key: string): Promise<number>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+  ping?(): Promise<void>; // Rejects if the backend is unreachable (in-process stores omit it)
+}
+
 /**
  * Cached data wrapper
  */
@@ -420,6 +775,126 @@ export interface CachedData<T> {
   ttl: number;
 }
 
+// ============================================================================
+// Cache Warming Types
+// ============================================================================
+
+/**
+ * Short link to keep warm (same backup groups as its smart-select request)
+ */
+export interface CacheWarmLink {
+  shortLink: string;
+  backups: BackupGroup[];
+}
+
+/**
+ * Cache warming configuration (loaded from CACHE_WARM_CONFIG_FILE)
+ */
+export interface CacheWarmConfig {
+  zipCodes: string[];
+  shortLinks: CacheWarmLink[];
+}
+
+/**
+ * Result for a single tcin+zipCode warm item
+ */
+export interface CacheWarmItemResult {
+  tcin: string;
+  zipCode: string;
+  shortLinks: string[];
+  status: 'warmed' | 'fresh' | 'failed' | 'skipped_budget';
+  creditsUsed: number;
+  error?: string;
+}
+
+/**
+ * Report for a single cache warming run
+ */
+export interface CacheWarmReport {
+  trigger: 'startup' | 'schedule' | 'manual';
+  startedAt: string;
+  finishedAt: string;
+  warmed: number;
+  fresh: number;
+  failed: number;
+  skipped: number;
+  creditsUsed: number;
+  creditBudgetPerHour: number;
+  creditBudgetRemaining: number;
+  items: CacheWarmItemResult[];
+}
+
+// ============================================================================
+// Analytics Types
+// ============================================================================
+
+/**
+ * A primary product was replaced by a backup
+ */
+export interface SubstitutionEvent {
+  type: 'product_substitution';
+  timestamp: string;
+  shortLink: string;
+  originalId: string;
+  replacementId: string;
+  reason: BackupProductUsed['reason'];
+  autoSource?: AutoBackupSource;
+  zipCode: string;
+  storeId?: string;
+}
+
+/**
+ * No product of any group was available; the shopper got the fallback URL
+ */
+export interface AllProductsUnavailableEvent {
+  type: 'all_products_unavailable';
+  timestamp: string;
+  shortLink: string;
+  primaryProductIds: string[];
+  zipCode: string;
+  fallbackUrl: string;
+}
+
+/**
+ * Smart-select endpoint timing
+ */
+export interface ApiPerformanceEvent {
+  type: 'api_call';
+  timestamp: string;
+  endpoint: string;
+  durationMs: number;
+  cacheHit: boolean;
+  productsChecked: number;
+  substitutions: number;
+}
+
+/**
+ * Any event sent through the analytics event bus
+ */
+export type AnalyticsEvent = SubstitutionEvent | AllProductsUnavailableEvent | ApiPerformanceEvent;
+
+/**
+ * Destination for analytics event batches
+ * write() rejects if the batch could not be delivered
+ */
+export interface AnalyticsSink {
+  name: string;
+  write(events: AnalyticsEvent[]): Promise<void>;
+}
+
+/**
+ * Delivery counters for one sink
+ */
+export interface AnalyticsSinkStats {
+  name: string;
+  queued: number;
+  delivered: number;
+  failed: number; // Events in batches the sink rejected
+  dropped: number; // Events discarded because the queue was full (backpressure)
+  lastError?: string;
+  lastFlushAt?: string;
+}
+
 // ============================================================================
 // API Configuration Types
 // ============================================================================
@@ -434,12 +909,100 @@ export interface TargetApiConfig {
   retryAttempts?: number;
 }
 
+/**
+ * API client allowed to call /api routes (loaded from API_KEYS or API_KEYS_FILE)
+ *
+ * allowedRoutes entries are "METHOD /path" or "/path"; a trailing "*" matches any
+ * suffix (e.g., "GET /api/products/*"), and "*" alone allows every route.
+ */
+export interface ApiClientConfig {
+  key: string;
+  clientId: string;
+  allowedRoutes: string[];
+  rateLimitPerMinute?: number;
+  dailyCreditQuota?: number;
+}
+
 /**
  * API request options
  */
 export interface ApiRequestOptions {
   skipCache?: boolean;
   timeout?: number;
+  retryAttempts?: number; // Retries after the first attempt (0 disables retries)
+  deadlineMs?: number; // Overall deadline across all attempts
+}
+
+/**
+ * Outcome of the most recent RedCircle calls (epoch milliseconds)
+ */
+export interface UpstreamStatus {
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastErrorCode?: string | number;
+}
+
+/**
+ * RedCircle circuit breaker state
+ * - closed: requests flow normally
+ * - open: requests fail fast until the cool-down ends
+ * - half_open: one probe request decides whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: string; // When the circuit last opened
+  retryAt?: string; // When an open circuit lets a probe through
+  timesOpened: number; // Since startup
+}
+
+// ============================================================================
+// Health Types
+// ============================================================================
+
+/**
+ * Overall readiness: degraded still serves traffic (e.g. cache-only mode)
+ */
+export type ReadinessStatus = 'ready' | 'degraded' | 'not_ready';
+
+/**
+ * Result of one readiness check
+ */
+export type HealthCheckStatus = 'ok' | 'fail' | 'skipped' | 'low' | 'exhausted';
+
+export interface ReadinessReport {
+  status: ReadinessStatus;
+  timestamp: string;
+  checks: {
+    cache: {
+      status: HealthCheckStatus;
+      backend: 'memory' | 'redis';
+      latencyMs: number;
+      error?: string;
+    };
+    upstream: {
+      status: HealthCheckStatus;
+      source: 'traffic' | 'probe' | 'none'; // Recent real calls, a probe, or not checked
+      checkedAt?: string;
+      ageSeconds?: number;
+      errorCode?: string | number;
+    };
+    circuit: {
+      status: HealthCheckStatus;
+      state: CircuitState;
+      retryAt?: string;
+    };
+    credits: {
+      status: HealthCheckStatus;
+      cacheOnlyMode: boolean;
+      dailyBudget: number | null;
+      dailyBudgetRemaining: number | null;
+      creditsRemaining: number | null; // Account balance from the latest RedCircle response
+    };
+  };
 }
 
 // ============================================================================
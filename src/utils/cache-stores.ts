@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Cache backend implementations
+ * @description In-memory (node-cache) and Redis-protocol implementations of CacheStore.
+ * The backend is chosen by CACHE_BACKEND (memory | redis) in utils/cache.ts
+ * @module utils/cache-stores
+ * @related utils/cache.ts, types/index.ts
+ */
+
+import NodeCache from 'node-cache';
+import Redis from 'ioredis';
+import { CacheStore, CacheStats } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('Cache');
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Per-instance in-memory cache backed by node-cache
+ * Fast, but each Cloud Run instance has its own cache and loses it on restart
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const;
+
+  private readonly cache: NodeCache;
+
+  constructor(
+    readonly namespace: string,
+    readonly defaultTtl: number,
+    checkPeriod: number,
+  ) {
+    this.cache = new NodeCache({
+      stdTTL: defaultTtl,
+      checkperiod: checkPeriod,
+      useClones: false, // Avoid cloning for better performance
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<boolean> {
+    // Only pass TTL if explicitly provided, otherwise use cache default
+    // Note: ttl=0 means "never expire" in node-cache, so we must not pass 0 accidentally
+    return ttl !== undefined ? this.cache.set(key, value, ttl) : this.cache.set(key, value);
+  }
+
+  async delete(key: string): Promise<number> {
+    return this.cache.del(key);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  async stats(): Promise<CacheStats> {
+    const { hits, misses } = this.cache.getStats();
+    return {
+      keys: this.cache.keys().length,
+      hits,
+      misses,
+      hitRate: hits / (hits + misses) || 0,
+    };
+  }
+}
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+/**
+ * Redis connection settings
+ */
+const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+const REDIS_KEY_PREFIX = process.env.REDIS_KEY_PREFIX || 'target-redcircle:';
+const REDIS_COMMAND_TIMEOUT_MS = parseInt(process.env.REDIS_COMMAND_TIMEOUT_MS || '500', 10);
+
+/**
+ * How long stats() reuses a namespace's key count (counting SCANs every key)
+ */
+const REDIS_KEY_COUNT_REFRESH_MS = parseInt(process.env.REDIS_KEY_COUNT_REFRESH_SECONDS || '60', 10) * 1000;
+
+/**
+ * Shared Redis connection (created on first use, reused by all namespaces)
+ */
+let redisClient: Redis | null = null;
+
+/**
+ * Get the shared Redis client
+ *
+ * @returns Redis client
+ */
+export function getRedisClient(): Redis {
+  if (!redisClient) {
+    redisClient = new Redis(REDIS_URL, {
+      maxRetriesPerRequest: 1,
+      commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+    });
+
+    redisClient.on('error', (error) => {
+      logger.warn('Redis connection error', { error: error.message });
+    });
+  }
+
+  return redisClient;
+}
+
+/**
+ * Shared cache backed by any Redis-protocol server (Redis, Memorystore, Valkey)
+ * Values are JSON-encoded under `{REDIS_KEY_PREFIX}{namespace}:{key}`.
+ * Redis failures are treated as cache misses so requests fall through to RedCircle.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const;
+
+  private hits = 0;
+
+  private misses = 0;
+
+  private keyCount = 0;
+
+  private keyCountAt = 0; // Epoch ms of the last key count (0 = never counted)
+
+  private keyCountRefresh: Promise<void> | null = null;
+
+  constructor(
+    readonly namespace: string,
+    readonly defaultTtl: number,
+    private readonly client: Redis = getRedisClient(),
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const raw = await this.client.get(this.toRedisKey(key));
+      if (raw === null) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.hits++;
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      this.misses++;
+      logRedisError('GET', key, error);
+      return undefined;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return (await this.client.exists(this.toRedisKey(key))) > 0;
+    } catch (error) {
+      logRedisError('EXISTS', key, error);
+      return false;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<boolean> {
+    const effectiveTtl = ttl !== undefined ? ttl : this.defaultTtl;
+
+    try {
+      const payload = JSON.stringify(value);
+      // ttl=0 means "never expire" (matches node-cache semantics)
+      const result = effectiveTtl > 0
+        ? await this.client.set(this.toRedisKey(key), payload, 'EX', effectiveTtl)
+        : await this.client.set(this.toRedisKey(key), payload);
+      return result === 'OK';
+    } catch (error) {
+      logRedisError('SET', key, error);
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<number> {
+    try {
+      return await this.client.del(this.toRedisKey(key));
+    } catch (error) {
+      logRedisError('DEL', key, error);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scanKeys();
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+    this.keyCountAt = 0;
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  /**
+   * Hit/miss counters (this instance) and the namespace's key count
+   * The key count is refreshed in the background at most every REDIS_KEY_COUNT_REFRESH_SECONDS,
+   * so metrics scrapes don't SCAN Redis each time; only the first call waits for it
+   */
+  async stats(): Promise<CacheStats> {
+    if (Date.now() - this.keyCountAt >= REDIS_KEY_COUNT_REFRESH_MS) {
+      const refresh = this.refreshKeyCount();
+      if (this.keyCountAt === 0) {
+        await refresh;
+      }
+    }
+
+    return {
+      keys: this.keyCount,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: this.hits / (this.hits + this.misses) || 0,
+    };
+  }
+
+  /**
+   * Count the namespace's keys (concurrent callers share one SCAN)
+   * Failures keep the previous count
+   */
+  private refreshKeyCount(): Promise<void> {
+    if (!this.keyCountRefresh) {
+      this.keyCountRefresh = this.scanKeys()
+        .then((keys) => {
+          this.keyCount = keys.length;
+          this.keyCountAt = Date.now();
+        })
+        .catch((error) => logRedisError('SCAN', '*', error))
+        .finally(() => {
+          this.keyCountRefresh = null;
+        });
+    }
+    return this.keyCountRefresh;
+  }
+
+  /**
+   * Build the namespaced Redis key
+   */
+  private toRedisKey(key: string): string {
+    return `${REDIS_KEY_PREFIX}${this.namespace}:${key}`;
+  }
+
+  /**
+   * List all Redis keys in this namespace (SCAN, never KEYS)
+   *
+   * @param cursor - SCAN cursor to continue from
+   */
+  private async scanKeys(cursor = '0'): Promise<string[]> {
+    const pattern = `${REDIS_KEY_PREFIX}${this.namespace}:*`;
+    const [nextCursor, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+    return nextCursor === '0' ? batch : [...batch, ...await this.scanKeys(nextCursor)];
+  }
+}
+
+/**
+ * Log a Redis command failure (the command is treated as a cache miss or no-op)
+ *
+ * @param command - Redis command name
+ * @param key - Cache key
+ * @param error - Error thrown by the client
+ */
+function logRedisError(command: string, key: string, error: unknown): void {
+  logger.warn(`Redis ${command} failed for ${key}`, { command, key, error: (error as Error).message });
+}
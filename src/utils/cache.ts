@@ -1,11 +1,16 @@
 /**
  * @fileoverview Two-layer caching system for Target API
- * @description Implements product cache (1 hour) and stock cache (5 minutes) for performance optimization
+ * @description Implements product cache (1 hour) and stock cache (5 minutes) for performance optimization.
+ * Both namespaces use a pluggable CacheStore backend (in-memory or Redis) chosen by CACHE_BACKEND.
  * @module utils/cache
- * @related services/stock/availability.ts, services/target/api.ts
+ * @related services/stock/availability.ts, services/target/api.ts, utils/cache-stores.ts
  */
 
-import NodeCache from 'node-cache';
+import { CacheStore, CacheStats, CachedData } from '../types';
+import { MemoryCacheStore, RedisCacheStore } from './cache-stores';
+import { createLogger } from './logger';
+
+const logger = createLogger('Cache');
 
 // ============================================================================
 // Cache Configuration
@@ -13,8 +18,18 @@ import NodeCache from 'node-cache';
 
 /**
  * Stock cache TTL: 5 minutes (inventory changes frequently)
+ * This is the soft TTL: after it, entries are served stale while being refreshed
+ */
+export const STOCK_CACHE_TTL = parseInt(process.env.CACHE_TTL_SECONDS || '300', 10);
+
+/**
+ * Stock cache hard TTL: entries are never served past this age
+ * Defaults to the soft TTL (stale-while-revalidate disabled)
  */
-const STOCK_CACHE_TTL = parseInt(process.env.CACHE_TTL_SECONDS || '300', 10);
+export const STOCK_CACHE_HARD_TTL = Math.max(
+  STOCK_CACHE_TTL,
+  parseInt(process.env.STOCK_CACHE_HARD_TTL_SECONDS || String(STOCK_CACHE_TTL), 10),
+);
 
 /**
  * Product cache TTL: 1 hour (product data changes slowly)
@@ -24,29 +39,42 @@ const PRODUCT_CACHE_TTL = parseInt(
   10,
 );
 
+/**
+ * Cache backend: 'memory' (per-instance node-cache, default) or 'redis' (shared)
+ */
+const CACHE_BACKEND = process.env.CACHE_BACKEND === 'redis' ? 'redis' : 'memory';
+
 // ============================================================================
 // Cache Instances
 // ============================================================================
 
 /**
- * Stock availability cache (5 minutes)
- * Stores real-time inventory data
+ * Create a cache store for a namespace using the configured backend
+ *
+ * @param namespace - Cache namespace (used as Redis key prefix)
+ * @param ttl - Default TTL in seconds
+ * @param checkPeriod - Expired entry sweep interval in seconds (memory backend only)
+ * @returns Cache store
+ */
+function createCacheStore(namespace: string, ttl: number, checkPeriod: number): CacheStore {
+  if (CACHE_BACKEND === 'redis') {
+    return new RedisCacheStore(namespace, ttl);
+  }
+
+  return new MemoryCacheStore(namespace, ttl, checkPeriod);
+}
+
+/**
+ * Stock availability cache (5 minutes, kept until the hard TTL)
+ * Stores real-time inventory data as timestamped entries (see setTimestampedValue)
  */
-export const stockCache = new NodeCache({
-  stdTTL: STOCK_CACHE_TTL,
-  checkperiod: 60, // Check for expired entries every 60 seconds
-  useClones: false, // Avoid cloning for better performance
-});
+export const stockCache = createCacheStore('stock', STOCK_CACHE_HARD_TTL, 60);
 
 /**
  * Product information cache (1 hour)
  * Stores product metadata (title, price, images, etc.)
  */
-export const productCache = new NodeCache({
-  stdTTL: PRODUCT_CACHE_TTL,
-  checkperiod: 120,
-  useClones: false,
-});
+export const productCache = createCacheStore('product', PRODUCT_CACHE_TTL, 120);
 
 // ============================================================================
 // Cache Key Generators
@@ -96,6 +124,22 @@ export function generateProductStockCacheKey(
   return `stock:${zipCode}:${tcin}`;
 }
 
+/**
+ * Generate cache key for a single store's stock row
+ * Format: store_stock:{tcin}:{storeId}
+ *
+ * Rows from every store_stock response are indexed under this key so that a
+ * request for a preferred store already seen in another ZIP's results can be
+ * answered without a new RedCircle call.
+ *
+ * @param tcin - Target TCIN
+ * @param storeId - Target store ID
+ * @returns Cache key string
+ */
+export function generateStoreStockCacheKey(tcin: string, storeId: string): string {
+  return `store_stock:${tcin}:${storeId}`;
+}
+
 /**
  * Generate cache key for product information
  * Format: product:{tcin}
@@ -114,17 +158,17 @@ export function generateProductCacheKey(tcin: string): string {
 /**
  * Get value from cache with type safety
  *
- * @param cache - Cache instance
+ * @param cache - Cache store
  * @param key - Cache key
  * @returns Cached value or undefined
  */
-export function getCachedValue<T>(
-  cache: NodeCache,
+export async function getCachedValue<T>(
+  cache: CacheStore,
   key: string,
-): T | undefined {
-  const value = cache.get<T>(key);
-  if (value !== undefined && process.env.NODE_ENV === 'development') {
-    console.log(`[Cache HIT] ${key}`);
+): Promise<T | undefined> {
+  const value = await cache.get<T>(key);
+  if (value !== undefined) {
+    logger.debug(`HIT ${key}`);
   }
   return value;
 }
@@ -132,25 +176,23 @@ export function getCachedValue<T>(
 /**
  * Set value in cache with type safety
  *
- * @param cache - Cache instance
+ * @param cache - Cache store
  * @param key - Cache key
  * @param value - Value to cache
  * @param ttl - Optional custom TTL in seconds
  * @returns Success boolean
  */
-export function setCachedValue<T>(
-  cache: NodeCache,
+export async function setCachedValue<T>(
+  cache: CacheStore,
   key: string,
   value: T,
   ttl?: number,
-): boolean {
-  // Only pass TTL if explicitly provided, otherwise use cache default
-  // Note: ttl=0 means "never expire" in node-cache, so we must not pass 0 accidentally
-  const success = ttl !== undefined ? cache.set(key, value, ttl) : cache.set(key, value);
-
-  if (success && process.env.NODE_ENV === 'development') {
-    const effectiveTTL = ttl !== undefined ? ttl : cache.options.stdTTL;
-    console.log(`[Cache SET] ${key} (TTL: ${effectiveTTL}s)`);
+): Promise<boolean> {
+  const success = await cache.set(key, value, ttl);
+
+  if (success) {
+    const effectiveTTL = ttl !== undefined ? ttl : cache.defaultTtl;
+    logger.debug(`SET ${key} (TTL: ${effectiveTTL}s)`);
   }
   return success;
 }
@@ -158,44 +200,93 @@ export function setCachedValue<T>(
 /**
  * Delete value from cache
  *
- * @param cache - Cache instance
+ * @param cache - Cache store
  * @param key - Cache key
  * @returns Number of deleted entries
  */
-export function deleteCachedValue(cache: NodeCache, key: string): number {
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`[Cache DEL] ${key}`);
-  }
-  return cache.del(key);
+export async function deleteCachedValue(cache: CacheStore, key: string): Promise<number> {
+  logger.debug(`DEL ${key}`);
+  return cache.delete(key);
 }
 
 /**
  * Clear all entries from a cache
  *
- * @param cache - Cache instance
+ * @param cache - Cache store
  */
-export function clearCache(cache: NodeCache): void {
-  cache.flushAll();
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[Cache] Cleared all entries');
-  }
+export async function clearCache(cache: CacheStore): Promise<void> {
+  await cache.clear();
+  logger.debug(`Cleared all ${cache.namespace} entries`);
 }
 
 /**
  * Get cache statistics
  *
- * @param cache - Cache instance
+ * @param cache - Cache store
  * @returns Cache statistics
  */
-export function getCacheStats(cache: NodeCache) {
-  return {
-    keys: cache.keys().length,
-    hits: cache.getStats().hits,
-    misses: cache.getStats().misses,
-    hitRate:
-      cache.getStats().hits
-        / (cache.getStats().hits + cache.getStats().misses) || 0,
+export async function getCacheStats(cache: CacheStore): Promise<CacheStats> {
+  return cache.stats();
+}
+
+/**
+ * Timestamped cache lookup result
+ */
+export interface TimestampedLookup<T> {
+  data: T;
+  ageSeconds: number;
+  stale: boolean; // Past the soft TTL (still within the hard TTL)
+}
+
+/**
+ * Get a timestamped entry and classify it as fresh or stale
+ * Entries without a timestamp (written before timestamps were introduced) are treated as misses
+ *
+ * @param cache - Cache store
+ * @param key - Cache key
+ * @returns Lookup result or undefined on miss
+ */
+export async function getTimestampedValue<T>(
+  cache: CacheStore,
+  key: string,
+): Promise<TimestampedLookup<T> | undefined> {
+  const entry = await cache.get<CachedData<T>>(key);
+  if (!entry || typeof entry.timestamp !== 'number') {
+    return undefined;
+  }
+
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - entry.timestamp) / 1000));
+  const stale = ageSeconds >= entry.ttl;
+
+  logger.debug(`HIT${stale ? ' STALE' : ''} ${key} (age: ${ageSeconds}s)`);
+
+  return { data: entry.data, ageSeconds, stale };
+}
+
+/**
+ * Set a timestamped entry with separate soft and hard TTLs
+ *
+ * @param cache - Cache store
+ * @param key - Cache key
+ * @param value - Value to cache
+ * @param softTtl - Seconds after which the entry is considered stale
+ * @param hardTtl - Seconds after which the entry is evicted (defaults to cache default)
+ * @returns Success boolean
+ */
+export async function setTimestampedValue<T>(
+  cache: CacheStore,
+  key: string,
+  value: T,
+  softTtl: number,
+  hardTtl?: number,
+): Promise<boolean> {
+  const entry: CachedData<T> = {
+    data: value,
+    timestamp: Date.now(),
+    ttl: softTtl,
   };
+
+  return setCachedValue(cache, key, entry, hardTtl);
 }
 
 // ============================================================================
@@ -203,47 +294,56 @@ export function getCacheStats(cache: NodeCache) {
 // ============================================================================
 
 /**
- * Pre-fetch and cache common products for faster responses
+ * Per-product cache warming result
+ */
+export interface WarmCacheResult<T> {
+  productId: string;
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Pre-fetch common products for faster responses
  *
  * @param productIds - Array of product IDs to pre-cache
  * @param zipCode - ZIP code for location
- * @param fetchFunction - Function to fetch data
+ * @param fetchFunction - Function to fetch data; it stores what it fetches (e.g. checkStoreStock),
+ *                        so the entry is written once
+ * @returns Per-product results (failures never throw - cache warming is optional)
  */
 export async function warmCache<T>(
   productIds: string[],
   zipCode: string,
   fetchFunction: (tcin: string, zipCode: string) => Promise<T>,
-): Promise<void> {
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`[Cache] Warming cache for ${productIds.length} products`);
-  }
+): Promise<WarmCacheResult<T>[]> {
+  logger.debug(`Warming cache for ${productIds.length} products`);
 
-  const promises = productIds.map(async (tcin) => {
+  const promises = productIds.map(async (tcin): Promise<WarmCacheResult<T>> => {
     try {
       const data = await fetchFunction(tcin, zipCode);
-      const cacheKey = generateProductStockCacheKey(zipCode, tcin);
-      setCachedValue(stockCache, cacheKey, data);
+      return { productId: tcin, success: true, data };
     } catch (error) {
       // Silently fail - cache warming is optional
-      if (process.env.NODE_ENV === 'development') {
-        console.error(`[Cache] Failed to warm cache for ${tcin}:`, error);
-      }
+      logger.debug(`Failed to warm cache for ${tcin}`, { error });
+      return { productId: tcin, success: false, error: (error as Error).message };
     }
   });
 
-  await Promise.allSettled(promises);
+  return Promise.all(promises);
 }
 
 // ============================================================================
 // Cache Monitoring (Development Only)
 // ============================================================================
 
-if (process.env.NODE_ENV === 'development') {
+if (logger.isLevelEnabled('debug')) {
   // Log cache statistics every 5 minutes
-  setInterval(() => {
-    console.log('[Cache Stats]', {
-      stock: getCacheStats(stockCache),
-      product: getCacheStats(productCache),
+  setInterval(async () => {
+    logger.debug('Cache statistics', {
+      backend: CACHE_BACKEND,
+      stock: await getCacheStats(stockCache),
+      product: await getCacheStats(productCache),
     });
   }, 300000);
 }
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview HTTP responses for temporarily unavailable RedCircle calls
+ * @description CREDIT_BUDGET_EXHAUSTED (cache-only mode) and CIRCUIT_OPEN are expected, temporary
+ * states rather than server bugs. Controllers answer them with 503, the real error code and a
+ * Retry-After header when the error says when calls resume (`details.retryAt`)
+ * @module utils/http-errors
+ * @related controllers/stock.ts, controllers/products.ts, services/target/api.ts
+ */
+
+import { Response } from 'express';
+import { ApiError } from '../types';
+
+/**
+ * ApiError codes of calls refused before reaching RedCircle, until the budget or circuit allows them
+ */
+const UNAVAILABLE_ERROR_CODES = new Set<string | number>(['CREDIT_BUDGET_EXHAUSTED', 'CIRCUIT_OPEN']);
+
+/**
+ * Whether an error means RedCircle calls are temporarily refused (HTTP 503)
+ *
+ * @param error - Error object
+ * @returns True for an ApiError with CREDIT_BUDGET_EXHAUSTED or CIRCUIT_OPEN
+ */
+export function isTemporarilyUnavailable(error: unknown): error is ApiError {
+  return error instanceof ApiError && UNAVAILABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Set Retry-After (whole seconds, at least 1) from the error's `details.retryAt`, if it has one
+ *
+ * @param res - Express response
+ * @param error - ApiError instance
+ */
+export function setRetryAfter(res: Response, error: ApiError): void {
+  const retryAt = Date.parse(String(error.details?.retryAt));
+  if (Number.isNaN(retryAt)) {
+    return;
+  }
+
+  res.set('Retry-After', String(Math.max(1, Math.ceil((retryAt - Date.now()) / 1000))));
+}
+
+/**
+ * Send a 503 with the error's code, message and details, and Retry-After when known
+ *
+ * @param res - Express response
+ * @param error - ApiError for which isTemporarilyUnavailable is true
+ */
+export function sendTemporarilyUnavailable(res: Response, error: ApiError): void {
+  setRetryAfter(res, error);
+  res.status(503).json({
+    error: {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    },
+  });
+}
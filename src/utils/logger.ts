@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Structured logger
+ * @description Leveled logger that writes one JSON object per line (Cloud Logging format)
+ * or readable lines in development. Every entry carries the request ID and API client of
+ * the current request (from the request context), and credentials are redacted
+ * @module utils/logger
+ * @related utils/request-context.ts, middleware/request-context.ts
+ */
+
+import { getRequestContext } from './request-context';
+
+// ============================================================================
+// Logger Configuration
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Minimum level written (defaults: debug in development, warn in test, info otherwise)
+ */
+const LOG_LEVEL: LogLevel = parseLevel(process.env.LOG_LEVEL) || defaultLevel();
+
+/**
+ * Output format: json (one object per line) or pretty (defaults to pretty in development)
+ */
+const LOG_FORMAT = process.env.LOG_FORMAT === 'json' || process.env.LOG_FORMAT === 'pretty'
+  ? process.env.LOG_FORMAT
+  : defaultFormat();
+
+/**
+ * Field names whose values are never logged
+ */
+const SENSITIVE_KEY_PATTERN = /(api|admin)[_-]?key|authorization|token|secret|password|cookie/i;
+
+/**
+ * Maximum depth of logged objects (deeper values are summarized)
+ */
+const MAX_FIELD_DEPTH = 6;
+
+const REDACTED = '[REDACTED]';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+/**
+ * Create a logger for a component
+ *
+ * @param component - Component name shown with every entry (e.g. "Target API")
+ * @returns Logger
+ *
+ * @example
+ * const logger = createLogger('Availability');
+ * logger.info('Checked products', { count: 3, zipCode: '04457' });
+ * // {"severity":"INFO","message":"Checked products","component":"Availability","requestId":"...","count":3,...}
+ */
+export function createLogger(component: string): Logger {
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (isLevelEnabled(level)) {
+      writeEntry(level, component, message, fields);
+    }
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    isLevelEnabled,
+  };
+}
+
+/**
+ * Whether entries of a level are written
+ *
+ * @param level - Log level
+ * @returns True if level is at or above LOG_LEVEL
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[LOG_LEVEL];
+}
+
+/**
+ * Redact credentials from a value before it is logged or returned
+ * Removes sensitive fields, `api_key=` query parameters and the configured RedCircle key
+ *
+ * @param value - Any value
+ * @returns Copy safe to log
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, 0, new WeakSet());
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Format and write one entry (warn/error to stderr, the rest to stdout)
+ *
+ * @param level - Log level
+ * @param component - Component name
+ * @param message - Message
+ * @param fields - Structured fields
+ */
+function writeEntry(level: LogLevel, component: string, message: string, fields?: LogFields): void {
+  const context = getRequestContext();
+  const safeFields = fields ? redact(fields) as LogFields : {};
+  const stream = LEVEL_ORDER[level] >= LEVEL_ORDER.warn ? process.stderr : process.stdout;
+
+  if (LOG_FORMAT === 'pretty') {
+    const requestTag = context?.requestId ? ` (${context.requestId})` : '';
+    const details = Object.keys(safeFields).length > 0 ? ` ${JSON.stringify(safeFields)}` : '';
+    stream.write(`${level.toUpperCase()} [${component}] ${redactString(message)}${requestTag}${details}\n`);
+    return;
+  }
+
+  stream.write(`${JSON.stringify({
+    severity: level.toUpperCase(),
+    message: redactString(message),
+    timestamp: new Date().toISOString(),
+    component,
+    requestId: context?.requestId,
+    clientId: context?.clientId,
+    ...safeFields,
+  })}\n`);
+}
+
+/**
+ * Recursively copy a value, redacting credentials
+ *
+ * @param value - Value to copy
+ * @param depth - Current depth
+ * @param seen - Objects already visited (cycle guard)
+ * @returns Redacted copy
+ */
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    const { code, details } = value as Error & { code?: unknown; details?: unknown };
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      code,
+      details: redactValue(details, depth + 1, seen),
+      stack: isLevelEnabled('debug') ? redactString(value.stack || '') : undefined,
+    };
+  }
+
+  if (seen.has(value) || depth >= MAX_FIELD_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redactValue(item, depth + 1, seen),
+  ]));
+}
+
+/**
+ * Redact credentials embedded in a string (URLs, error messages)
+ *
+ * @param value - String
+ * @returns Redacted string
+ */
+function redactString(value: string): string {
+  let result = value.replace(/(api_key=)[^&\s"']+/gi, `$1${REDACTED}`);
+  const apiKey = process.env.TARGET_API_KEY;
+  if (apiKey && apiKey.length >= 8) {
+    result = result.split(apiKey).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Parse a log level name
+ *
+ * @param value - Raw value (env var)
+ * @returns Log level or undefined if not recognized
+ */
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return value && value in LEVEL_ORDER ? value as LogLevel : undefined;
+}
+
+/**
+ * Default level for the environment
+ */
+function defaultLevel(): LogLevel {
+  if (process.env.NODE_ENV === 'development') {
+    return 'debug';
+  }
+  return process.env.NODE_ENV === 'test' ? 'warn' : 'info';
+}
+
+/**
+ * Default output format for the environment
+ */
+function defaultFormat(): 'json' | 'pretty' {
+  return process.env.NODE_ENV === 'development' ? 'pretty' : 'json';
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Per-request context propagated through async calls
+ * @description Uses AsyncLocalStorage so services can attribute upstream work (e.g., RedCircle
+ * credits) to the HTTP request and API client that triggered it, without threading parameters
+ * @module utils/request-context
+ * @related middleware/request-context.ts, middleware/auth.ts, services/target/api.ts
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// ============================================================================
+// Context Types
+// ============================================================================
+
+/**
+ * Mutable state for a single HTTP request
+ */
+export interface RequestContext {
+  requestId?: string; // Correlation ID (X-Request-Id header or generated)
+  clientId?: string; // Authenticated API client (set by auth middleware)
+  shortLink?: string; // Short link being resolved (set by smart-select controller)
+  creditsUsed: number; // RedCircle credits spent while handling this request
+  onCredits?: (credits: number) => void; // Called per recorded credit charge (set by the quota middleware)
+}
+
+// ============================================================================
+// Context Storage
+// ============================================================================
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function inside a new request context
+ *
+ * @param context - Initial context
+ * @param fn - Function to run
+ * @returns Function result
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run a function in a child of the current request context that resolves another short link
+ * (batch items). Credits recorded inside are attributed to that short link and still count
+ * for the request and its client
+ *
+ * @param shortLink - Short link the work belongs to
+ * @param fn - Function to run
+ * @returns Function result (fn runs unchanged outside a request)
+ */
+export function runWithShortLink<T>(shortLink: string, fn: () => T): T {
+  const parent = storage.getStore();
+  if (!parent) {
+    return fn();
+  }
+
+  const child: RequestContext = {
+    ...parent,
+    shortLink,
+    creditsUsed: 0,
+    onCredits: (credits) => {
+      parent.creditsUsed += credits;
+      parent.onCredits?.(credits);
+    },
+  };
+  return storage.run(child, fn);
+}
+
+/**
+ * Get the context of the current request
+ *
+ * @returns Request context or undefined outside a request (e.g., scheduled jobs)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Attribute RedCircle credits to the current request (no-op outside a request)
+ * Work started by the request keeps its context, so background refreshes that finish after
+ * the response are attributed (and reported through onCredits) too
+ *
+ * @param credits - Credits used by an upstream call
+ */
+export function recordRequestCredits(credits: number): void {
+  const context = storage.getStore();
+  if (context) {
+    context.creditsUsed += credits;
+    context.onCredits?.(credits);
+  }
+}
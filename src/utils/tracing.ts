@@ -0,0 +1,177 @@
+/**
+ * @fileoverview OpenTelemetry tracing
+ * @description Tracer provider setup and a span helper. Spans cover the smart-select
+ * controllers, product selection, batch availability checks, stock lookups and every
+ * RedCircle request. The exporter is chosen with OTEL_TRACES_EXPORTER
+ * @module utils/tracing
+ * @related controllers/stock.ts, services/stock/product-selector.ts, services/target/api.ts
+ */
+
+import {
+  Attributes,
+  Span,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { createLogger } from './logger';
+
+// ============================================================================
+// Tracing Configuration
+// ============================================================================
+
+/**
+ * Span exporter: none (tracing disabled), console, memory (tests) or otlp
+ * (OTLP/HTTP, endpoint from OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT)
+ */
+const TRACES_EXPORTER = process.env.OTEL_TRACES_EXPORTER || 'none';
+
+/**
+ * service.name resource attribute
+ */
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'target-redcircle-api';
+
+const TRACER_NAME = 'target-redcircle-api';
+
+const logger = createLogger('Tracing');
+
+// ============================================================================
+// Tracing State
+// ============================================================================
+
+let provider: NodeTracerProvider | null = null;
+let memoryExporter: InMemorySpanExporter | null = null;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Register the tracer provider for the configured exporter
+ * Until this runs (or with OTEL_TRACES_EXPORTER=none) spans are no-ops
+ */
+export function startTracing(): void {
+  if (provider) {
+    return;
+  }
+
+  const spanProcessor = createSpanProcessor(TRACES_EXPORTER);
+  if (!spanProcessor) {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': SERVICE_NAME }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+
+  logger.info(`Exporting traces to ${TRACES_EXPORTER}`, { serviceName: SERVICE_NAME });
+}
+
+/**
+ * Flush pending spans and shut the provider down
+ */
+export async function stopTracing(): Promise<void> {
+  if (provider) {
+    await provider.shutdown();
+    provider = null;
+  }
+}
+
+/**
+ * Run a function inside a new active span
+ * The span is a child of the current span, ends when the function settles and is marked
+ * as an error (with the exception recorded) if it throws
+ *
+ * @param name - Span name
+ * @param attributes - Attributes known before the call
+ * @param fn - Function to run (receives the span to add attributes)
+ * @param resultAttributes - Optional attributes derived from the result
+ * @returns Result of fn
+ *
+ * @example
+ * const result = await withSpan('checkBatchAvailability', { 'app.zip_code': zipCode },
+ *   () => runCheck(params),
+ *   (checked) => ({ 'app.in_stock_count': checked.inStock }));
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  resultAttributes?: (result: T) => Attributes,
+): Promise<T> {
+  return trace.getTracer(TRACER_NAME).startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      const result = await fn(span);
+      if (resultAttributes) {
+        span.setAttributes(resultAttributes(result));
+      }
+      return result;
+    } catch (error) {
+      const { code } = error as { code?: string | number };
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      if (code !== undefined) {
+        span.setAttribute('error.code', String(code));
+      }
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Get spans recorded by the in-memory exporter (OTEL_TRACES_EXPORTER=memory)
+ *
+ * @returns Finished spans, oldest first (empty for other exporters)
+ */
+export function getFinishedSpans(): ReadableSpan[] {
+  return memoryExporter ? memoryExporter.getFinishedSpans() : [];
+}
+
+/**
+ * Clear spans recorded by the in-memory exporter
+ */
+export function resetFinishedSpans(): void {
+  memoryExporter?.reset();
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Create the span processor for an exporter name
+ * Console and memory export each span as it ends; OTLP exports in batches
+ *
+ * @param exporter - Exporter name
+ * @returns Span processor, or null when tracing is disabled
+ */
+function createSpanProcessor(exporter: string): SpanProcessor | null {
+  switch (exporter) {
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'memory':
+      memoryExporter = new InMemorySpanExporter();
+      return new SimpleSpanProcessor(memoryExporter);
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'none':
+      return null;
+    default:
+      logger.warn(`Unknown OTEL_TRACES_EXPORTER "${exporter}", tracing disabled`);
+      return null;
+  }
+}